@@ -0,0 +1,107 @@
+/**
+ * Time the layout pipeline on generated trees of 1,000 to 5,000 nodes and compare against the
+ * recorded baseline, so a change that makes large flows slow shows up before it ships.
+ * Each size is timed twice: the post-processing passes on their own, and the whole layout
+ * including ELK. A time is flagged when it is both 25% and 20ms slower than the baseline.
+ * Timings depend on the machine, so only compare runs made on the same one.
+ *
+ *   npm run bench:layout             compare with scripts/layoutBenchmark.json
+ *   npm run bench:layout -- --update record this run as the new baseline
+ */
+import { existsSync, readFileSync, writeFileSync } from "node:fs";
+import { indexGraph } from "../src/layout/graph";
+import { layoutGraph } from "../src/layout/layoutGraph";
+import { DEFAULT_LAYOUT_OPTIONS } from "../src/layout/options";
+import { applyLayoutPasses, calculateSubtreeWidths } from "../src/layout/passes";
+import type { PositionedNode } from "../src/layout/types";
+import { randomTree } from "./layoutCorpus";
+
+const BASELINE_PATH = new URL("./layoutBenchmark.json", import.meta.url);
+const SIZES = [1000, 2000, 5000];
+// The passes are quick enough to take the best of a few runs; ELK runs once per size
+const PASS_RUNS = 3;
+// Slowdowns beyond this fraction of the baseline are flagged...
+const REGRESSION_THRESHOLD = 0.25;
+// ...unless they are smaller than this. The passes take tens of milliseconds, where a few
+// milliseconds of scheduling noise alone is a double-digit percentage.
+const REGRESSION_FLOOR_MS = 20;
+
+interface BenchmarkResult {
+  nodes: number;
+  edges: number;
+  passesMs: number;
+  layoutMs: number;
+}
+
+function time(run: () => void): number {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+}
+
+function formatChange(current: number, baseline: number | undefined): string {
+  if (baseline === undefined) return "";
+  const change = (current - baseline) / baseline;
+  const slower = change > REGRESSION_THRESHOLD && current - baseline > REGRESSION_FLOOR_MS;
+  const flag = slower ? "  <- slower" : "";
+  return ` (${change >= 0 ? "+" : ""}${Math.round(change * 100)}%)${flag}`;
+}
+
+async function benchmark(size: number): Promise<BenchmarkResult> {
+  const graph = randomTree(size, size);
+  const start = performance.now();
+  const { positions } = await layoutGraph(graph.nodes, graph.edges);
+  const layoutMs = performance.now() - start;
+
+  const laidOut: PositionedNode[] = graph.nodes.map(node => ({
+    id: node.id,
+    position: positions[node.id],
+    width: node.width || DEFAULT_LAYOUT_OPTIONS.defaultNodeWidth,
+    height: node.height || DEFAULT_LAYOUT_OPTIONS.defaultNodeHeight,
+  }));
+  const passRuns = Array.from({ length: PASS_RUNS }, () => time(() => {
+    const index = indexGraph(graph.edges);
+    calculateSubtreeWidths(graph.nodes, graph.edges, DEFAULT_LAYOUT_OPTIONS, index);
+    applyLayoutPasses(laidOut, graph.edges, DEFAULT_LAYOUT_OPTIONS, index);
+  }));
+
+  return {
+    nodes: graph.nodes.length,
+    edges: graph.edges.length,
+    passesMs: Math.round(Math.min(...passRuns)),
+    layoutMs: Math.round(layoutMs),
+  };
+}
+
+async function main() {
+  const update = process.argv.includes("--update");
+  const baseline: BenchmarkResult[] = existsSync(BASELINE_PATH)
+    ? JSON.parse(readFileSync(BASELINE_PATH, "utf8"))
+    : [];
+
+  // ELK's first run pays for warming up, which would otherwise be billed to the smallest tree
+  const warmUp = randomTree(0, 100);
+  await layoutGraph(warmUp.nodes, warmUp.edges);
+
+  const results: BenchmarkResult[] = [];
+  for (const size of SIZES) {
+    const result = await benchmark(size);
+    const previous = baseline.find(entry => entry.nodes === result.nodes);
+    console.log(
+      `${String(result.nodes).padStart(5)} nodes  ` +
+      `passes ${String(result.passesMs).padStart(5)}ms${formatChange(result.passesMs, previous?.passesMs)}  ` +
+      `layout ${String(result.layoutMs).padStart(6)}ms${formatChange(result.layoutMs, previous?.layoutMs)}`
+    );
+    results.push(result);
+  }
+
+  if (update || baseline.length === 0) {
+    writeFileSync(BASELINE_PATH, JSON.stringify(results, null, 2) + "\n");
+    console.log(`\nBaseline written to ${BASELINE_PATH.pathname}`);
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
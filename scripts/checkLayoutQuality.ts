@@ -0,0 +1,80 @@
+/**
+ * Lay out every graph in the generated corpus, with every strategy and in every direction, and
+ * check the results with the layout-quality rules. Prints a summary per graph and fails if any
+ * graph has overlapping nodes or edges through nodes, or misaligned siblings or off-centre
+ * parents where the strategy runs the pass that should have fixed them.
+ *
+ * Edges are checked along the routes the layout returned, straight where it returned none.
+ *
+ *   npm run check:layout
+ */
+import { LAYOUT_DIRECTIONS } from "../src/layout/direction";
+import { layoutGraph } from "../src/layout/layoutGraph";
+import { DEFAULT_LAYOUT_OPTIONS } from "../src/layout/options";
+import { LAYOUT_STRATEGIES, LAYOUT_STRATEGY_IDS } from "../src/layout/strategies";
+import {
+  checkLayoutQuality,
+  type LayoutViolation,
+  type LayoutViolationKind,
+} from "../src/layout/quality";
+import type { LayoutStrategyId, PositionedNode } from "../src/layout/types";
+import { generateLayoutCorpus } from "./layoutCorpus";
+
+// Violations that fail the check, given the passes a strategy runs
+function failingKinds(strategyId: LayoutStrategyId): Set<LayoutViolationKind> {
+  const { passes } = LAYOUT_STRATEGIES[strategyId];
+  const kinds = new Set<LayoutViolationKind>(["node-overlap", "edge-through-node"]);
+  if (passes.alignSiblings) kinds.add("sibling-misalignment");
+  if (passes.centerParents) kinds.add("parent-off-center");
+  return kinds;
+}
+
+async function main() {
+  const failures: { name: string; violations: LayoutViolation[] }[] = [];
+
+  const corpus = generateLayoutCorpus();
+  for (const strategy of LAYOUT_STRATEGY_IDS) for (const direction of LAYOUT_DIRECTIONS) for (const graph of corpus) {
+    const name = `${strategy}/${direction.toLowerCase()}/${graph.name}`;
+    const { positions, edgeRoutes } = await layoutGraph(graph.nodes, graph.edges, { direction, strategy });
+    const laidOut: PositionedNode[] = graph.nodes.map(node => ({
+      id: node.id,
+      position: positions[node.id],
+      width: node.width || DEFAULT_LAYOUT_OPTIONS.defaultNodeWidth,
+      height: node.height || DEFAULT_LAYOUT_OPTIONS.defaultNodeHeight,
+    }));
+    // Roots (and the end node, root of the output tree) are centred over their
+    // whole subtree by the skew-correction pass, not over their direct children
+    const targets = new Set(graph.edges.map(edge => edge.target));
+    const roots = graph.nodes.filter(node => !targets.has(node.id)).map(node => node.id);
+    const violations = checkLayoutQuality(laidOut, graph.edges, {
+      skipCenteringFor: [...roots, DEFAULT_LAYOUT_OPTIONS.sinkNodeId!],
+      direction,
+      edgeRoutes,
+    });
+
+    const counts = new Map<string, number>();
+    violations.forEach(v => counts.set(v.kind, (counts.get(v.kind) || 0) + 1));
+    const summary = counts.size === 0
+      ? "ok"
+      : Array.from(counts, ([kind, count]) => `${count} ${kind}`).join(", ");
+    console.log(`${name.padEnd(42)} ${String(graph.nodes.length).padStart(4)} nodes  ${summary}`);
+
+    const failing = violations.filter(v => failingKinds(strategy).has(v.kind));
+    if (failing.length > 0) failures.push({ name, violations: failing });
+  }
+
+  if (failures.length > 0) {
+    failures.forEach(({ name, violations }) => {
+      console.log(`\n${name}:`);
+      violations.slice(0, 10).forEach(v => console.log(`  ${v.message}`));
+      if (violations.length > 10) console.log(`  …and ${violations.length - 10} more`);
+    });
+    console.error(`\n${failures.length} corpus graph(s) have layout violations`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exitCode = 1;
+});
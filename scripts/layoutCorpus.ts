@@ -0,0 +1,130 @@
+import { buildChildrenMap } from "../src/layout/graph";
+import type { LayoutEdge, LayoutNode } from "../src/layout/types";
+
+const SINK_ID = "end-node";
+
+export interface CorpusGraph {
+  name: string;
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+}
+
+// Small deterministic PRNG (mulberry32) so every run checks the same graphs
+function createRandom(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Builds a tree shaped like the editor's: a root, every leaf linked to the sink,
+// and optionally an output tree hanging from the sink
+class TreeBuilder {
+  nodes: LayoutNode[] = [];
+  edges: LayoutEdge[] = [];
+  private counter = 0;
+  private random: () => number;
+
+  constructor(seed: number) {
+    this.random = createRandom(seed);
+    this.nodes.push({ id: "root", height: 300 }, { id: SINK_ID, height: 300 });
+  }
+
+  // Heights in the same 200-500px range the editor generates
+  addChild(parentId: string): string {
+    const id = `node-${++this.counter}`;
+    this.nodes.push({ id, height: 200 + Math.floor(this.random() * 301) });
+    this.edges.push({ id: `edge-${parentId}-${id}`, source: parentId, target: id });
+    return id;
+  }
+
+  pick<T>(items: T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  build(name: string): CorpusGraph {
+    const children = buildChildrenMap(this.edges);
+    const outputIds = new Set<string>();
+    const stack = [SINK_ID];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      (children.get(id) || []).forEach(childId => {
+        outputIds.add(childId);
+        stack.push(childId);
+      });
+    }
+    const sinkEdges = this.nodes
+      .filter(node => node.id !== SINK_ID && !outputIds.has(node.id) && !children.has(node.id))
+      .map(node => ({ id: `edge-${node.id}-${SINK_ID}`, source: node.id, target: SINK_ID }));
+    return { name, nodes: this.nodes, edges: [...this.edges, ...sinkEdges] };
+  }
+}
+
+// One long branch next to a few short ones
+function skewedTree(seed: number, depth: number): CorpusGraph {
+  const tree = new TreeBuilder(seed);
+  tree.addChild("root");
+  tree.addChild("root");
+  let tip = tree.addChild("root");
+  for (let i = 0; i < depth; i++) {
+    const next = tree.addChild(tip);
+    if (i % 3 === 0) tree.addChild(tip);
+    tip = next;
+  }
+  return tree.build(`skewed-${depth}`);
+}
+
+// A chain with occasional short side branches
+function deepTree(seed: number, depth: number): CorpusGraph {
+  const tree = new TreeBuilder(seed);
+  let tip = "root";
+  for (let i = 0; i < depth; i++) {
+    if (i % 5 === 4) tree.addChild(tip);
+    tip = tree.addChild(tip);
+  }
+  return tree.build(`deep-${depth}`);
+}
+
+// Many children per node over a few levels
+function wideTree(seed: number, fanOut: number, levels: number): CorpusGraph {
+  const tree = new TreeBuilder(seed);
+  let level = ["root"];
+  for (let i = 0; i < levels; i++) {
+    level = level.flatMap(parent =>
+      Array.from({ length: i === 0 ? fanOut : Math.ceil(fanOut / 2) }, () => tree.addChild(parent))
+    );
+  }
+  return tree.build(`wide-${fanOut}x${levels}`);
+}
+
+// Random growth, as if clicked together in the editor, including an output tree
+export function randomTree(seed: number, size: number): CorpusGraph {
+  const tree = new TreeBuilder(seed);
+  const mainIds = ["root"];
+  const outputIds = [SINK_ID];
+  for (let i = 0; i < size; i++) {
+    if (i % 6 === 5) {
+      outputIds.push(tree.addChild(tree.pick(outputIds)));
+    } else {
+      mainIds.push(tree.addChild(tree.pick(mainIds)));
+    }
+  }
+  return tree.build(`random-${size}-seed${seed}`);
+}
+
+export function generateLayoutCorpus(): CorpusGraph[] {
+  return [
+    skewedTree(1, 6),
+    skewedTree(2, 15),
+    deepTree(3, 12),
+    deepTree(4, 30),
+    wideTree(5, 6, 2),
+    wideTree(6, 12, 2),
+    wideTree(7, 4, 3),
+    ...[11, 12, 13, 14, 15].map(seed => randomTree(seed, 20)),
+    ...[21, 22, 23].map(seed => randomTree(seed, 60)),
+  ];
+}
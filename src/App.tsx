@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback, useMemo } from "react";
+import React, { useEffect, useState, useCallback, useMemo, useRef } from "react";
 import ReactFlow, {
   Background,
   Controls,
@@ -7,77 +7,215 @@ import ReactFlow, {
   applyNodeChanges,
   applyEdgeChanges,
   useReactFlow,
+  useUpdateNodeInternals,
   ReactFlowProvider,
+  MarkerType,
   type Node,
   type Edge,
   type NodeMouseHandler,
+  type EdgeMouseHandler,
+  type NodeDragHandler,
   type NodeProps,
+  type Connection,
+  type XYPosition,
 } from "reactflow";
-import ELK from "elkjs/lib/elk.bundled.js";
 import "reactflow/dist/style.css";
+// Import the browser-side pieces directly so ELK itself only ends up in the worker bundle
+import type { LayoutDirection, LayoutOptionsInput } from "./layout/types";
+import { getDirectionSides, type NodeSide } from "./layout/direction";
+import { createLayoutWorkerClient, type LayoutWorkerClient } from "./layout/workerClient";
+import { getLayoutBounds } from "./layout/graph";
+import {
+  END_NODE_ID,
+  ROOT_NODE_ID,
+  addChildNode,
+  addSiblingNode,
+  canDeleteNode,
+  checkGraphIntegrity,
+  connectNodes,
+  createFlowNode,
+  deleteNode,
+  deleteSubtree,
+  deleteSubtrees,
+  duplicateSubtrees,
+  getAllowedNewNodeTypes,
+  getChildIds,
+  getNodeType,
+  getNodeTypes,
+  getParentIds,
+  getSubtreeFragment,
+  getVisibleGraph,
+  insertNodeAfter,
+  insertNodeBefore,
+  insertNodeOnEdge,
+  isDescendantOfOutput,
+  isSummaryEdge,
+  pasteFragment,
+  setNodeCollapsed,
+  setNodeField,
+  setNodeLabel,
+  setNodePinned,
+  reparentNode,
+  unpinAllNodes,
+  validateConnection,
+  validatePaste,
+  validateReparent,
+  type ConnectionValidation,
+  type DeleteMode,
+  type FlowGraph,
+  type FlowNodeData,
+  type GraphIssue,
+  type VisibleGraph,
+} from "./graph";
+import {
+  EMPTY_HISTORY,
+  pushCommand,
+  redoCommand,
+  undoCommand,
+  type FlowHistory,
+  type FlowSnapshot,
+} from "./history";
+import { FlowActionsContext, useFlowActions, type FlowActions } from "./flowActions";
+import {
+  NodeDecorationsContext,
+  useNodeDecoration,
+  emptyDecoration,
+  type NodeDecoration,
+  type NodeHighlight,
+  type NodeNotice,
+} from "./nodeDecorations";
+import { LayoutDirectionContext, useLayoutDirection } from "./layoutDirection";
+import { loadLayoutSettings, saveLayoutSettings, toLayoutOptions, type LayoutSettings } from "./layoutSettings";
+import { useLayoutAnimation } from "./layoutAnimation";
+import { useStructuralNodes } from "./graphStructure";
+import { useFlowRun } from "./flowRun";
+import type { RunLogEntry } from "./run";
+import LabelInput from "./components/LabelInput";
+import NodeFields from "./components/NodeFields";
+import NodePropertiesPanel from "./components/NodePropertiesPanel";
+import ProblemsPanel from "./components/ProblemsPanel";
+import ContextMenu, { type ContextMenuItem } from "./components/ContextMenu";
+import LayoutQualityOverlay from "./components/LayoutQualityOverlay";
+import LayoutSettingsPanel from "./components/LayoutSettingsPanel";
+import RoutedEdge from "./components/RoutedEdge";
+import RunPanel from "./components/RunPanel";
+import type { EdgeStyle, RoutedEdgeData } from "./edgePaths";
+import {
+  FlowDocumentError,
+  type DiagramFormat,
+  autosaveFlow,
+  downloadDiagram,
+  downloadFlow,
+  loadAutosavedFlow,
+  parseFragment,
+  readFlowFile,
+  serializeFragment,
+} from "./document";
+import { rasterizeSvg, renderFlowSvg } from "./export";
+import { downloadBlob } from "./download";
+import {
+  EDGE_ARROW_SIZE,
+  EDGE_COLOR,
+  EDGE_THICKNESS,
+  NODE_BORDER_RADIUS,
+  NODE_FONT_SIZE,
+  SUMMARY_EDGE_DASH,
+} from "./theme";
 
-const elk = new ELK();
+// Wait for sizes to settle before laying out again, e.g. while several nodes are being measured
+const LAYOUT_DEBOUNCE = 150;
 
-const END_NODE_ID = "end-node";
+// How long a rejected connection's reason stays on screen
+const CONNECTION_REJECTION_TIMEOUT = 4000;
 
-// Constants for better maintainability
-const DEFAULT_NODE_WIDTH = 500;
-const DEFAULT_NODE_HEIGHT = 300;
-const VERTICAL_SPACING = 100;
-const NODE_SPACING = 50;
-const MIN_RANDOM_HEIGHT = 200;
-const MAX_RANDOM_HEIGHT = 500;
-
-// Constants for consistent edge styling
-const EDGE_THICKNESS = 2;
-const EDGE_COLOR = '#999';
-const EDGE_SPACING = 20;
-const EDGE_NODE_SPACING = 30;
-const LAYER_EDGE_SPACING = 40;
+// Layout options for this screen; everything else uses the engine defaults
+const LAYOUT_OPTIONS: LayoutOptionsInput = {
+  sinkNodeId: END_NODE_ID,
+};
 
 // FIX BEX-1665: Handle positioning constants to eliminate gaps between edges and nodes
 const HANDLE_SIZE = 12; // Size of the connection handle
 const HANDLE_BORDER_WIDTH = 2;
 
-// Custom node component with collapse/expand buttons and precise edge connection
-function CustomNode({ id, data }: NodeProps) {
-  const { setNodes } = useReactFlow();
+const SIDE_POSITIONS: Record<NodeSide, Position> = {
+  top: Position.Top,
+  right: Position.Right,
+  bottom: Position.Bottom,
+  left: Position.Left,
+};
+
+const PROBLEM_EDGE_COLOR = '#d32f2f';
+const SELECTION_COLOR = '#1976d2';
+
+const HIGHLIGHT_COLORS: Record<NodeHighlight, string> = {
+  'drop-target': '#2e7d32',
+  'invalid-drop-target': '#d32f2f',
+  'run-active': '#7b1fa2',
+};
+
+const NOTICE_COLORS: Record<NodeNotice['kind'], string> = {
+  error: '#d32f2f',
+  warning: '#f57c00',
+  info: '#1976d2',
+};
+
+// Node component for every registered node type: a "+" button for children, collapse/expand/delete
+// buttons, a label that edits on double-click, the type's fields as a form, and precise edge connection
+function CustomNode({ id, type, data, selected }: NodeProps) {
+  const { editable, addChild, deleteNode, setCollapsed, setPinned, startAddParent, setLabel, setField } = useFlowActions();
+  const [editingLabel, setEditingLabel] = useState(false);
+  const decoration = useNodeDecoration(id);
+  const direction = useLayoutDirection();
+  const sides = getDirectionSides(direction);
+  const updateNodeInternals = useUpdateNodeInternals();
+
+  // React Flow caches handle positions, so tell it when they move to other sides
+  useEffect(() => {
+    updateNodeInternals(id);
+  }, [id, direction, updateNodeInternals]);
   
   const handleCollapse = (e: React.MouseEvent) => {
     e.stopPropagation();
-    updateNodeHeight(id, 100);
+    setCollapsed(id, true);
   };
   
   const handleExpand = (e: React.MouseEvent) => {
     e.stopPropagation();
-    updateNodeHeight(id, data.originalHeight || DEFAULT_NODE_HEIGHT);
+    setCollapsed(id, false);
   };
-  
-  const updateNodeHeight = (nodeId: string, newHeight: number) => {
-    setNodes((nodes) => 
-      nodes.map((node) => {
-        if (node.id === nodeId) {
-          return {
-            ...node,
-            width: DEFAULT_NODE_WIDTH,
-            height: newHeight,
-            style: {
-              ...node.style,
-              width: DEFAULT_NODE_WIDTH,
-              height: newHeight,
-            },
-            data: {
-              ...node.data,
-              originalHeight: node.data.originalHeight || node.height || DEFAULT_NODE_HEIGHT,
-            }
-          };
-        }
-        return node;
-      })
-    );
+
+  const pinned = Boolean(data.pinnedPosition);
+  const handleTogglePin = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setPinned(id, !pinned);
+  };
+
+  const handleAddChild = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    addChild(id);
+  };
+
+  const startEditingLabel = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    setEditingLabel(true);
+  };
+
+  const labelInput = (
+    <LabelInput value={data.label} onCommit={(label) => setLabel(id, label)} onDone={() => setEditingLabel(false)} autoFocus style={{ font: 'inherit' }} />
+  );
+
+  const handleAddParent = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    startAddParent(id);
+  };
+
+  const handleDelete = (mode: DeleteMode) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    deleteNode(id, mode);
   };
   
-  const isEndNode = id === END_NODE_ID;
+  const nodeType = getNodeType(type);
+  const { colors } = nodeType;
   
   // FIX BEX-1665: Improved handle styles to eliminate gaps between edges and nodes
   const handleStyle = {
@@ -91,772 +229,1254 @@ function CustomNode({ id, data }: NodeProps) {
   };
 
   // FIX BEX-1665: Position handles precisely at the node edges to eliminate gaps
-  const topHandleStyle = {
-    ...handleStyle,
-    top: `-${HANDLE_SIZE / 2}px`, // Position handle centered on the top edge
-    left: '50%',
-    transform: 'translateX(-50%)', // Center horizontally
-  };
-
-  const bottomHandleStyle = {
-    ...handleStyle,
-    bottom: `-${HANDLE_SIZE / 2}px`, // Position handle centered on the bottom edge
-    left: '50%',
-    transform: 'translateX(-50%)', // Center horizontally
-  };
+  const sideHandleStyle = (side: NodeSide) => side === 'top' || side === 'bottom'
+    ? {
+      ...handleStyle,
+      [side]: `-${HANDLE_SIZE / 2}px`, // Position handle centered on the edge
+      left: '50%',
+      transform: 'translateX(-50%)', // Center horizontally
+    }
+    : {
+      ...handleStyle,
+      [side]: `-${HANDLE_SIZE / 2}px`,
+      top: '50%',
+      transform: 'translateY(-50%)', // Center vertically
+    };
   
   return (
     <div style={{
-      width: `${DEFAULT_NODE_WIDTH}px`,
-      height: '100%',
-      backgroundColor: isEndNode ? '#ffeb3b' : '#fff',
-      border: isEndNode ? '2px solid #f57f17' : '1px solid #ddd',
-      borderRadius: '5px',
+      // Each type has its own width; long labels wrap
+      width: `${nodeType.defaultSize.width}px`,
+      backgroundColor: colors.background,
+      border: `${colors.borderWidth}px solid ${colors.border}`,
+      borderRadius: `${NODE_BORDER_RADIUS}px`,
       boxSizing: 'border-box',
+      boxShadow: decoration?.highlight
+        ? `0 0 0 4px ${HIGHLIGHT_COLORS[decoration.highlight]}`
+        : selected ? `0 0 0 3px ${SELECTION_COLOR}` : undefined,
       position: 'relative' // Ensure proper positioning context for handles
     }}>
-      {/* FIX BEX-1665: Top handle with precise positioning to eliminate gaps */}
+      {/* FIX BEX-1665: Target handle with precise positioning to eliminate gaps */}
       <Handle 
         type="target" 
-        position={Position.Top} 
-        style={topHandleStyle}
-        id="top"
+        position={SIDE_POSITIONS[sides.target]} 
+        style={sideHandleStyle(sides.target)}
+        id={sides.target}
       />
       
+      {/* Header: badges and buttons. A collapsed node is just its header, so that is its collapsed height */}
       <div style={{ 
         display: 'flex', 
-        flexDirection: 'column', 
-        height: '100%', 
-        padding: '10px',
-        position: 'relative'
+        alignItems: 'center', 
+        flexWrap: 'wrap', 
+        gap: '5px', 
+        padding: '5px'
       }}>
-        <div style={{ 
-          position: 'absolute', 
-          top: '5px', 
-          right: '5px', 
-          display: 'flex', 
-          gap: '5px',
-          zIndex: 10
-        }}>
-          <button 
-            onClick={handleCollapse}
-            aria-label="Collapse node"
+        <span style={{ fontSize: '11px', fontWeight: 600, textTransform: 'uppercase', color: colors.border }}>
+          {nodeType.label}
+        </span>
+        {decoration?.badges.map((badge, index) => (
+          <span
+            key={index}
+            title={badge.title}
+            aria-label={badge.title}
             style={{
-              padding: '4px 8px',
+              padding: '2px 6px',
               fontSize: '12px',
-              backgroundColor: '#ff9800',
+              fontWeight: 600,
+              borderRadius: '10px',
               color: 'white',
-              border: 'none',
-              borderRadius: '3px',
-              cursor: 'pointer'
+              backgroundColor: NOTICE_COLORS[badge.kind],
             }}
           >
-            Collapse
-          </button>
-          <button 
-            onClick={handleExpand}
-            aria-label="Expand node"
+            {badge.label}
+          </span>
+        ))}
+        {data.collapsed && editingLabel && (
+          <div style={{ flex: 1, minWidth: 0 }}>{labelInput}</div>
+        )}
+        {data.collapsed && !editingLabel && (
+          <span
+            title={data.label}
+            onDoubleClick={editable ? startEditingLabel : undefined}
             style={{
-              padding: '4px 8px',
-              fontSize: '12px',
-              backgroundColor: '#4caf50',
-              color: 'white',
-              border: 'none',
-              borderRadius: '3px',
-              cursor: 'pointer'
+              flex: 1,
+              minWidth: 0,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+              fontSize: '14px',
+              fontWeight: 600
             }}
           >
-            Expand
-          </button>
-        </div>
+            {data.label}
+          </span>
+        )}
+        {editable && (
         <div style={{ 
           display: 'flex', 
-          alignItems: 'center', 
-          justifyContent: 'center', 
-          height: '100%',
-          fontSize: '16px'
+          flexWrap: 'wrap', 
+          gap: '5px', 
+          marginLeft: 'auto'
         }}>
-          {data.label}
+            <button 
+              onClick={handleAddChild}
+              aria-label="Add child node"
+              title="Add child"
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                fontWeight: 600,
+                backgroundColor: '#00897b',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              +
+            </button>
+            <button 
+              onClick={handleCollapse}
+              aria-label="Collapse node"
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: '#ff9800',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Collapse
+            </button>
+            <button 
+              onClick={handleExpand}
+              aria-label="Expand node"
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: '#4caf50',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              Expand
+            </button>
+            <button 
+              onClick={handleTogglePin}
+              aria-pressed={pinned}
+              aria-label={pinned ? 'Unpin node and let layout place it' : 'Pin node at its current position'}
+              style={{
+                padding: '4px 8px',
+                fontSize: '12px',
+                backgroundColor: pinned ? '#4e342e' : '#8d6e63',
+                color: 'white',
+                border: 'none',
+                borderRadius: '3px',
+                cursor: 'pointer'
+              }}
+            >
+              {pinned ? 'Unpin' : 'Pin'}
+            </button>
+            {canDeleteNode(id) && (
+              <>
+                <button 
+                  onClick={handleAddParent}
+                  aria-label="Link this node to an additional parent"
+                  style={{
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    backgroundColor: '#2196f3',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '3px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Add parent
+                </button>
+                <button 
+                  onClick={handleDelete('node')}
+                  aria-label="Delete node and reconnect its children to its parent"
+                  style={{
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    backgroundColor: '#f44336',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '3px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Delete node
+                </button>
+                <button 
+                  onClick={handleDelete('subtree')}
+                  aria-label="Delete node and all of its descendants"
+                  style={{
+                    padding: '4px 8px',
+                    fontSize: '12px',
+                    backgroundColor: '#b71c1c',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '3px',
+                    cursor: 'pointer'
+                  }}
+                >
+                  Delete subtree
+                </button>
+              </>
+            )}
         </div>
+        )}
       </div>
+      {!data.collapsed && (
+        <div
+          onDoubleClick={editingLabel || !editable ? undefined : startEditingLabel}
+          title={editingLabel || !editable ? undefined : 'Double-click to rename'}
+          style={{ 
+            padding: '20px 10px', 
+            textAlign: 'center', 
+            overflowWrap: 'anywhere', 
+            fontSize: `${NODE_FONT_SIZE}px`
+          }}
+        >
+          {editingLabel ? labelInput : data.label}
+        </div>
+      )}
+      {!data.collapsed && (
+        <NodeFields
+          nodeType={nodeType}
+          values={data.fields}
+          disabled={!editable}
+          onChange={(key, value) => setField(id, key, value)}
+        />
+      )}
+      {decoration?.notices.map((notice, index) => (
+        <div
+          key={index}
+          role={notice.kind === 'error' ? 'alert' : 'status'}
+          style={{
+            // Just below the node, so a short node's label stays readable
+            position: 'absolute',
+            left: '10px',
+            top: `calc(100% + ${8 + index * 30}px)`,
+            whiteSpace: 'nowrap',
+            zIndex: 10,
+            padding: '4px 8px',
+            fontSize: '12px',
+            borderRadius: '3px',
+            color: 'white',
+            backgroundColor: NOTICE_COLORS[notice.kind],
+          }}
+        >
+          {notice.message}
+        </div>
+      ))}
       
-      {/* FIX BEX-1665: Bottom handle with precise positioning to eliminate gaps */}
+      {/* FIX BEX-1665: Source handle with precise positioning to eliminate gaps */}
       <Handle 
         type="source" 
-        position={Position.Bottom} 
-        style={bottomHandleStyle}
-        id="bottom"
+        position={SIDE_POSITIONS[sides.source]} 
+        style={sideHandleStyle(sides.source)}
+        id={sides.source}
       />
     </div>
   );
 }
 
-const nodeTypes = {
-  customNode: CustomNode,
+// Every registered type draws with the same component, which reads the type's schema
+const nodeTypes = Object.fromEntries(getNodeTypes().map(type => [type.id, CustomNode]));
+
+// Keys typed into inputs edit the text there, so shortcuts and clipboard events leave them alone
+function isTextEntry(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null;
+  return Boolean(element && (element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName)));
+}
+
+// Children a new leaf under the given parent gets: the end node in the main tree, none in the output tree
+function getNewLeafChildIds(graph: FlowGraph, parentId: string): string[] {
+  return parentId === END_NODE_ID || isDescendantOfOutput(parentId, graph.edges) ? [] : [END_NODE_ID];
+}
+
+const edgeTypes = {
+  routed: RoutedEdge,
 };
 
 // Start with root node and end node
 const initialNodes: Node[] = [
-  { 
-    id: "root", 
-    type: "customNode",
-    data: { label: "Root", originalHeight: DEFAULT_NODE_HEIGHT }, 
-    position: { x: 0, y: 0 }, 
-    width: DEFAULT_NODE_WIDTH, 
-    height: DEFAULT_NODE_HEIGHT,
-    style: { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT }
-  },
-  { 
-    id: END_NODE_ID, 
-    type: "customNode",
-    data: { label: "End", originalHeight: DEFAULT_NODE_HEIGHT }, 
-    position: { x: 0, y: 0 }, 
-    width: DEFAULT_NODE_WIDTH, 
-    height: DEFAULT_NODE_HEIGHT,
-    style: { width: DEFAULT_NODE_WIDTH, height: DEFAULT_NODE_HEIGHT }
-  },
+  createFlowNode(ROOT_NODE_ID, { label: "Root" }, "start"),
+  createFlowNode(END_NODE_ID, { label: "End" }, "end"),
 ];
 
 // Connect root to end initially
 const initialEdges: Edge[] = [
-  { id: "root-to-end", source: "root", target: END_NODE_ID }
+  { id: "root-to-end", source: ROOT_NODE_ID, target: END_NODE_ID }
 ];
 
-// Calculate subtree widths for ELK positioning
-function calculateSubtreeWidths(nodes: Node[], edges: Edge[]): (Node & { elkWidth: number })[] {
-  // Build parent -> children map
-  const childrenMap = new Map<string, string[]>();
-  edges.forEach(edge => {
-    if (!childrenMap.has(edge.source)) {
-      childrenMap.set(edge.source, []);
-    }
-    childrenMap.get(edge.source)!.push(edge.target);
-  });
-  
-  // Calculate minimum width needed for each node's subtree
-  const calculateNodeSubtreeWidth = (nodeId: string): number => {
-    const children = childrenMap.get(nodeId) || [];
-    if (children.length === 0) {
-      return DEFAULT_NODE_WIDTH; // Leaf node uses its own width
-    }
-    
-    // Calculate total width needed for all children side by side
-    const childWidths = children.map(childId => calculateNodeSubtreeWidth(childId));
-    const totalChildWidth = childWidths.reduce((sum, width) => sum + width, 0);
-    const spacingBetweenChildren = (children.length - 1) * VERTICAL_SPACING; // spacing between siblings
-    const minSubtreeWidth = totalChildWidth + spacingBetweenChildren;
-    
-    // Node should be at least as wide as its subtree needs
-    return Math.max(DEFAULT_NODE_WIDTH, minSubtreeWidth);
-  };
-  
-  // Return nodes with calculated ELK widths
-  return nodes.map(node => ({
-    ...node,
-    elkWidth: calculateNodeSubtreeWidth(node.id)
-  }));
-}
-
 /**
- * Enhanced centering logic specifically for skewed/asymmetric graphs.
- * This function centers root nodes over their entire subtree, regardless of asymmetry.
- * @param nodes - Array of graph nodes
- * @param edges - Array of edges connecting the nodes
- * @returns Adjusted array of nodes with updated positions
- */
-function centerInputNodeForSkewedGraph(nodes: Node[], edges: Edge[]): Node[] {
-  const adjustedNodes = [...nodes];
-  
-  // Find the root node (node with no incoming edges, excluding END_NODE_ID)
-  const hasIncomingEdge = new Set(edges.map(e => e.target));
-  const rootNodes = nodes.filter(node => !hasIncomingEdge.has(node.id) && node.id !== END_NODE_ID);
-  
-  if (rootNodes.length === 0) return adjustedNodes;
-  
-  // For each root node, calculate the overall bounds of its entire subtree
-  rootNodes.forEach(rootNode => {
-    const rootIndex = adjustedNodes.findIndex(n => n.id === rootNode.id);
-    if (rootIndex === -1) return;
-    
-    // Get all descendants of this root node using iterative approach to prevent stack overflow
-    const getDescendants = (nodeId: string): Node[] => {
-      const result: Node[] = [];
-      const visited = new Set<string>();
-      const stack = [nodeId];
-      
-      while (stack.length > 0) {
-        const currentId = stack.pop()!;
-        if (visited.has(currentId)) continue;
-        visited.add(currentId);
-        
-        const childEdges = edges.filter(e => e.source === currentId);
-        const children = childEdges
-          .map(e => adjustedNodes.find(n => n.id === e.target))
-          .filter(Boolean) as Node[];
-        
-        result.push(...children);
-        stack.push(...children.map(c => c.id));
-      }
-      
-      return result;
-    };
-    
-    const descendants = getDescendants(rootNode.id);
-    if (descendants.length === 0) return;
-    
-    // Calculate the overall bounds of all descendants
-    const leftmostX = Math.min(...descendants.map(n => n.position.x));
-    const rightmostX = Math.max(...descendants.map(n => n.position.x + (n.width || DEFAULT_NODE_WIDTH)));
-    const subtreeCenterX = (leftmostX + rightmostX) / 2;
-    
-    // Center the root node over the entire subtree
-    const rootWidth = rootNode.width || DEFAULT_NODE_WIDTH;
-    const newRootX = subtreeCenterX - (rootWidth / 2);
-    
-    // Update the root node position
-    adjustedNodes[rootIndex] = {
-      ...adjustedNodes[rootIndex],
-      position: {
-        ...adjustedNodes[rootIndex].position,
-        x: newRootX
-      }
-    };
-  });
-  
-  return adjustedNodes;
-}
-
-/**
- * FIX BEX-1852: Apply consistent edge styling with clean straight edges to eliminate kinks
- * Changed from 'smoothstep' to 'straight' to prevent unwanted bends and kinks in edge rendering
+ * Apply consistent edge styling, drawing every edge through the bend points the layout routed it along
  * @param edges - Array of edges to style
- * @returns Styled edge array with consistent properties and clean straight connections
+ * @param direction - Layout direction, which decides the sides edges leave and enter nodes
+ * @param routes - Bend points per edge id; edges without one are drawn straight, or elbowed when orthogonal
+ * @param edgeStyle - How edges are drawn through their bend points
+ * @returns Styled edge array with consistent properties
  */
-function applyConsistentEdgeStyles(edges: Edge[]): Edge[] {
+function applyConsistentEdgeStyles(
+  edges: Edge[],
+  direction: LayoutDirection,
+  routes: Record<string, XYPosition[]>,
+  edgeStyle: EdgeStyle
+): Edge[] {
+  const sides = getDirectionSides(direction);
   return edges.map(edge => ({
     ...edge,
+    data: { ...edge.data, route: routes[edge.id], edgeStyle } satisfies RoutedEdgeData,
     style: {
       strokeWidth: EDGE_THICKNESS,
       stroke: EDGE_COLOR,
+      // Summarised edges stand in for a collapsed subtree
+      strokeDasharray: isSummaryEdge(edge) ? SUMMARY_EDGE_DASH : undefined,
     },
-    type: 'straight', // FIX BEX-1852: Changed from 'smoothstep' to 'straight' to eliminate kinks
+    type: 'routed',
     animated: false,
     markerEnd: {
-      type: 'arrowclosed',
-      width: 20,
-      height: 20,
+      type: MarkerType.ArrowClosed,
+      width: EDGE_ARROW_SIZE,
+      height: EDGE_ARROW_SIZE,
       color: EDGE_COLOR,
     },
     // FIX BEX-1665: Ensure edges connect to specific handles to eliminate gaps
-    sourceHandle: 'bottom',
-    targetHandle: 'top',
+    sourceHandle: sides.source,
+    targetHandle: sides.target,
   }));
 }
 
+// Draw the given edges (e.g. ones that close a cycle) in the problem colour
+function highlightEdges(edges: Edge[], edgeIds: Set<string>): Edge[] {
+  if (edgeIds.size === 0) return edges;
+  return edges.map(edge => edgeIds.has(edge.id)
+    ? { ...edge, style: { ...edge.style, stroke: PROBLEM_EDGE_COLOR, strokeDasharray: '6 4' } }
+    : edge
+  );
+}
+
+interface LaidOutFlow {
+  nodes: Node[];
+  // Bend points per edge id; empty when layout failed
+  edgeRoutes: Record<string, XYPosition[]>;
+}
+
+// Edge routes of the last layout, with the node positions they were routed between
+interface EdgeRouteLayout {
+  routes: Record<string, XYPosition[]>;
+  positions: Map<string, XYPosition>;
+}
+
+// Ids of the nodes that are no longer where the last layout put them, e.g. because they were dragged
+function getMovedNodeIds(nodes: Node[], layout: EdgeRouteLayout | null): string[] {
+  if (!layout) return [];
+  return nodes
+    .filter(node => {
+      const laidOut = layout.positions.get(node.id);
+      return !laidOut || laidOut.x !== node.position.x || laidOut.y !== node.position.y;
+    })
+    .map(node => node.id);
+}
+
 /**
- * Enhanced layout function with improved centering for skewed graphs and consistent edge styling
+ * Routes from the last layout for the edges whose end nodes are still where that layout put them.
+ * Edges of a node that has been dragged since fall back to their plain shape until the next layout.
  */
-async function layoutWithElk(nodes: Node[], edges: Edge[]): Promise<Node[]> {
+function getCurrentEdgeRoutes(edges: Edge[], layout: EdgeRouteLayout | null, movedIds: Set<string>): Record<string, XYPosition[]> {
+  const routes: Record<string, XYPosition[]> = {};
+  if (!layout) return routes;
+  edges.forEach(edge => {
+    const route = layout.routes[edge.id];
+    if (route && !movedIds.has(edge.source) && !movedIds.has(edge.target)) routes[edge.id] = route;
+  });
+  return routes;
+}
+
+/**
+ * Lay out the flow on the layout worker and apply the positions to the React Flow nodes.
+ * Resolves with null when a newer layout was requested before this one finished.
+ * Falls back to the current positions if ELK fails.
+ */
+async function layoutWithElk(
+  client: LayoutWorkerClient,
+  nodes: Node[],
+  edges: Edge[],
+  options: LayoutOptionsInput
+): Promise<LaidOutFlow | null> {
   try {
-    // Apply consistent edge styles first
-    const styledEdges = applyConsistentEdgeStyles(edges);
-    
-    // Separate main tree nodes from output tree nodes
-    const endNode = nodes.find(node => node.id === END_NODE_ID);
-    const outputTreeNodeIds = getOutputTreeDescendants(edges);
-    const outputTreeNodes = nodes.filter(node => outputTreeNodeIds.includes(node.id));
-    const mainTreeNodes = nodes.filter(node => 
-      node.id !== END_NODE_ID && !outputTreeNodeIds.includes(node.id)
-    );
-
-    // Layout main tree (excluding connections to output node)
-    const mainTreeEdges = edges.filter(edge => 
-      edge.target !== END_NODE_ID && 
-      !outputTreeNodeIds.includes(edge.source) && 
-      !outputTreeNodeIds.includes(edge.target)
-    );
-    
-    const mainNodesWithSubtreeWidths = calculateSubtreeWidths(mainTreeNodes, mainTreeEdges);
-    
-    const mainElkGraph = {
-      id: "main-root",
-      layoutOptions: {
-        "elk.algorithm": "mrtree",
-        "elk.direction": "DOWN",
-        "elk.spacing.nodeNode": NODE_SPACING.toString(),
-        "elk.spacing.edgeNode": EDGE_NODE_SPACING.toString(), 
-        "elk.mrtree.compaction": "true",
-        "elk.mrtree.edgeRoutingMode": "AVOID_OVERLAP",
-        "elk.mrtree.searchOrder": "DFS", // Depth-first search for better centering
-        "elk.mrtree.weighting": "MODEL_ORDER", // Respect model order for positioning
-        "elk.padding": "[top=50,left=50,bottom=50,right=50]",
-        // Enhanced edge consistency settings
-        "elk.spacing.edgeEdge": EDGE_SPACING.toString(), // Consistent spacing between edges
-        "elk.layered.spacing.edgeNodeBetweenLayers": LAYER_EDGE_SPACING.toString(), // Consistent vertical edge spacing
-        "elk.layered.spacing.edgeEdgeBetweenLayers": EDGE_SPACING.toString(), // Consistent edge-to-edge spacing
-        // FIX BEX-1852: Updated edge routing settings for straight line connections
-        "elk.edgeRouting": "STRAIGHT", // Use straight routing for clean, unkinking connections
-        "elk.layered.considerModelOrder.strategy": "PREFER_NODES", // Prioritize node positioning over edge routing
-        // Additional settings to ensure clean edge rendering
-        "elk.mrtree.portConstraints": "FIXED_SIDES", // Fixed port constraints for consistent edge connections
-      },
-      children: mainNodesWithSubtreeWidths.map((node: Node & { elkWidth: number }) => ({
-        id: node.id,
-        width: node.elkWidth,
-        height: node.height || DEFAULT_NODE_HEIGHT,
-      })),
-      edges: mainTreeEdges.map((edge) => ({
-        id: edge.id,
-        sources: [edge.source],
-        targets: [edge.target],
+    // Nodes React Flow hasn't measured yet are laid out at their type's default size
+    const layoutNodes = nodes.map(({ id, type, width, height, data }) => ({
+      id,
+      width: width || getNodeType(type).defaultSize.width,
+      height: height || getNodeType(type).defaultSize.height,
+      pinnedPosition: (data as FlowNodeData).pinnedPosition,
+    }));
+    const result = await client.layout(layoutNodes, edges, { ...LAYOUT_OPTIONS, ...options });
+    if (!result) return null;
+    return {
+      nodes: nodes.map((node) => ({
+        ...node,
+        position: result.positions[node.id] || node.position,
       })),
+      edgeRoutes: result.edgeRoutes,
     };
+  } catch (error) {
+    console.error('Layout calculation failed:', error);
+    return { nodes, edgeRoutes: {} }; // Keep original nodes as fallback
+  }
+}
 
-    const mainLayout = await elk.layout(mainElkGraph);
-    
-    // Position main tree nodes
-    const mainLaidOutNodes = mainTreeNodes.map((node) => {
-      const layoutNode = mainLayout.children?.find((n) => n.id === node.id);
-      return {
-        ...node,
-        position: { x: layoutNode?.x || 0, y: layoutNode?.y || 0 },
-        width: DEFAULT_NODE_WIDTH,
-      };
-    });
+function Flow() {
+  // Pick up where the last session left off, if it autosaved a valid flow
+  const [startup] = useState<FlowSnapshot>(() => loadAutosavedFlow() ?? {
+    graph: { nodes: initialNodes, edges: initialEdges },
+    nodeCounter: 1,
+  });
+  const [nodes, setNodes] = useState<Node[]>(startup.graph.nodes);
+  const [edges, setEdges] = useState<Edge[]>(startup.graph.edges);
+  const [nodeCounter, setNodeCounter] = useState(startup.nodeCounter);
+  const [history, setHistory] = useState<FlowHistory>(EMPTY_HISTORY);
+  const [alertMessage, setAlertMessage] = useState<string | null>(null);
+  // Node waiting for the user to click its extra parent
+  const [linkingChildId, setLinkingChildId] = useState<string | null>(null);
+  const [showLayoutDebug, setShowLayoutDebug] = useState(false);
+  const [showLayoutSettings, setShowLayoutSettings] = useState(false);
+  // In run mode clicks no longer edit the graph and the run panel is shown
+  const [runMode, setRunMode] = useState(false);
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(loadLayoutSettings);
+  const direction = layoutSettings.direction;
+  const [edgeRouteLayout, setEdgeRouteLayout] = useState<EdgeRouteLayout | null>(null);
+  // Why the last attempted connection was refused, shown on the node it targeted
+  const [connectionRejection, setConnectionRejection] = useState<{ nodeId: string; reason: string } | null>(null);
+  // Node or edge the context menu is open for, and where it was opened
+  const [contextMenu, setContextMenu] = useState<{ kind: 'node' | 'edge'; id: string; x: number; y: number } | null>(null);
+  // Node the dragged node is currently over, and whether dropping it there is allowed
+  const [dropTarget, setDropTarget] = useState<{ nodeId: string; validation: ConnectionValidation } | null>(null);
+  const { fitView, getIntersectingNodes, screenToFlowPosition } = useReactFlow();
+  const layoutAnimation = useLayoutAnimation(nodes, setNodes);
+  const layoutClientRef = useRef<LayoutWorkerClient | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
-    // Apply enhanced post-processing to main tree
-    const alignedMainNodes = alignSiblingsAtTop(mainLaidOutNodes, mainTreeEdges);
-    const centeredMainNodes = centerParentsOverChildren(alignedMainNodes, mainTreeEdges);
-    
-    // ENHANCED: Apply additional centering for skewed graphs
-    const skewCorrectedNodes = centerInputNodeForSkewedGraph(centeredMainNodes, mainTreeEdges);
-    
-    const finalMainNodes = constrainChildrenToParent(skewCorrectedNodes, mainTreeEdges);
-
-    // Position output node below main tree
-    const mainTreeBounds = finalMainNodes.length > 0 ? {
-      minX: Math.min(...finalMainNodes.map(node => node.position.x)),
-      maxX: Math.max(...finalMainNodes.map(node => node.position.x + (node.width || DEFAULT_NODE_WIDTH))),
-      maxY: Math.max(...finalMainNodes.map(node => node.position.y + (node.height || DEFAULT_NODE_HEIGHT)))
-    } : { minX: 0, maxX: DEFAULT_NODE_WIDTH, maxY: 0 };
-    
-    const centerX = (mainTreeBounds.minX + mainTreeBounds.maxX) / 2 - ((endNode?.width || DEFAULT_NODE_WIDTH) / 2);
-    const endNodeY = mainTreeBounds.maxY + VERTICAL_SPACING;
-    
-    const positionedEndNode = endNode ? {
-      ...endNode,
-      position: { x: centerX, y: endNodeY }
-    } : null;
-
-    // Layout output tree if it exists
-    let finalOutputNodes: Node[] = [];
-    if (outputTreeNodes.length > 0 && positionedEndNode) {
-      const outputTreeEdges = edges.filter(edge => 
-        outputTreeNodeIds.includes(edge.source) && outputTreeNodeIds.includes(edge.target)
-      );
-      
-      const outputTreeWithEnd = [positionedEndNode, ...outputTreeNodes];
-      const outputNodesWithWidths = calculateSubtreeWidths(outputTreeWithEnd, [
-        ...edges.filter(edge => edge.source === END_NODE_ID),
-        ...outputTreeEdges
-      ]);
-      
-      const outputElkGraph = {
-        id: "output-root",
-        layoutOptions: {
-          "elk.algorithm": "mrtree",
-          "elk.direction": "DOWN",
-          "elk.spacing.nodeNode": NODE_SPACING.toString(),
-          "elk.spacing.edgeNode": EDGE_NODE_SPACING.toString(), 
-          "elk.mrtree.compaction": "true",
-          "elk.mrtree.edgeRoutingMode": "AVOID_OVERLAP",
-          "elk.mrtree.searchOrder": "DFS",
-          "elk.mrtree.weighting": "MODEL_ORDER",
-          "elk.padding": "[top=50,left=50,bottom=50,right=50]",
-          // Apply consistent edge settings to output tree as well
-          "elk.spacing.edgeEdge": EDGE_SPACING.toString(),
-          "elk.layered.spacing.edgeNodeBetweenLayers": LAYER_EDGE_SPACING.toString(),
-          "elk.layered.spacing.edgeEdgeBetweenLayers": EDGE_SPACING.toString(),
-          // FIX BEX-1852: Same straight edge routing improvements for output tree
-          "elk.edgeRouting": "STRAIGHT",
-          "elk.layered.considerModelOrder.strategy": "PREFER_NODES",
-          "elk.mrtree.portConstraints": "FIXED_SIDES",
-        },
-        children: outputNodesWithWidths.map((node: Node & { elkWidth: number }) => ({
-          id: node.id,
-          width: node.elkWidth,
-          height: node.height || DEFAULT_NODE_HEIGHT,
-        })),
-        edges: [
-          ...edges.filter(edge => edge.source === END_NODE_ID),
-          ...outputTreeEdges
-        ].map((edge) => ({
-          id: edge.id,
-          sources: [edge.source],
-          targets: [edge.target],
-        })),
-      };
-
-      const outputLayout = await elk.layout(outputElkGraph);
-      
-      // Position output tree relative to where we want the end node
-      const elkEndPosition = outputLayout.children?.find(n => n.id === END_NODE_ID);
-      const offsetX = positionedEndNode.position.x - (elkEndPosition?.x || 0);
-      const offsetY = positionedEndNode.position.y - (elkEndPosition?.y || 0);
-      
-      const outputLaidOutNodes = outputTreeWithEnd.map((node) => {
-        const layoutNode = outputLayout.children?.find((n) => n.id === node.id);
-        return {
-          ...node,
-          position: { 
-            x: (layoutNode?.x || 0) + offsetX, 
-            y: (layoutNode?.y || 0) + offsetY 
-          },
-          width: DEFAULT_NODE_WIDTH,
-        };
+  // One layout worker per mounted flow
+  useEffect(() => {
+    const client = createLayoutWorkerClient();
+    layoutClientRef.current = client;
+    return () => {
+      client.dispose();
+      layoutClientRef.current = null;
+    };
+  }, []);
+
+  // Drags and layout animations move nodes on every frame without changing the graph, so the
+  // whole-graph passes below key on the structure rather than on the live nodes
+  const structuralNodes = useStructuralNodes(nodes);
+
+  // Checked on every change, before layout, so a broken graph shows its problems instead of crashing ELK
+  const integrity = useMemo(
+    () => checkGraphIntegrity({ nodes: structuralNodes, edges }),
+    [structuralNodes, edges]
+  );
+
+  // Which nodes and edges are shown: the subtrees of collapsed nodes are left out of the canvas and the layout
+  const visibleStructure = useMemo(() => {
+    const { graph, hiddenCounts } = getVisibleGraph({ nodes: structuralNodes, edges }, integrity.unsafeEdgeIds);
+    return { nodeIds: new Set(graph.nodes.map(node => node.id)), edges: graph.edges, hiddenCounts };
+  }, [structuralNodes, edges, integrity]);
+
+  // What is on screen, with the nodes where they currently are
+  const visible = useMemo<VisibleGraph>(() => ({
+    graph: { nodes: nodes.filter(node => visibleStructure.nodeIds.has(node.id)), edges: visibleStructure.edges },
+    hiddenCounts: visibleStructure.hiddenCounts,
+  }), [nodes, visibleStructure]);
+
+  // Nodes move on every frame of a drag or layout animation, but the set of moved nodes rarely
+  // changes, so keying on it keeps the edges from being restyled each frame
+  const movedNodeKey = useMemo(
+    () => getMovedNodeIds(visible.graph.nodes, edgeRouteLayout).join('\n'),
+    [visible, edgeRouteLayout]
+  );
+
+  // Runs walk the whole graph, collapsed subtrees included, but never an edge that closes a cycle
+  const runGraph = useMemo(
+    () => ({ nodes: structuralNodes, edges: edges.filter(edge => !integrity.unsafeEdgeIds.has(edge.id)) }),
+    [structuralNodes, edges, integrity]
+  );
+  const flowRun = useFlowRun(runGraph);
+
+  // Routes from the last layout, for the edges whose ends haven't moved since
+  const edgeRoutes = useMemo(
+    () => getCurrentEdgeRoutes(visible.graph.edges, edgeRouteLayout, new Set(movedNodeKey.split('\n'))),
+    [visible.graph.edges, edgeRouteLayout, movedNodeKey]
+  );
+
+  // Edges as drawn on the canvas and in image exports
+  const styledEdges = useMemo(
+    () => applyConsistentEdgeStyles(visible.graph.edges, direction, edgeRoutes, layoutSettings.edgeStyle),
+    [visible.graph.edges, direction, edgeRoutes, layoutSettings.edgeStyle]
+  );
+
+  const canvasEdges = useMemo(
+    () => highlightEdges(styledEdges, integrity.unsafeEdgeIds),
+    [styledEdges, integrity]
+  );
+
+  const applyLayout = useCallback(() => {
+    const client = layoutClientRef.current;
+    if (!client) return;
+    // Leave out dangling edges and the edges that close cycles; the rest still lays out
+    const layoutEdges = visible.graph.edges.filter(edge => !integrity.unsafeEdgeIds.has(edge.id));
+    layoutWithElk(client, visible.graph.nodes, layoutEdges, toLayoutOptions(layoutSettings)).then((laidOut) => {
+      if (!laidOut) return; // Superseded by a newer layout
+      // Hidden nodes keep their last position until they are shown again
+      const positions = new Map(laidOut.nodes.map(node => [node.id, node.position]));
+      setEdgeRouteLayout({ routes: laidOut.edgeRoutes, positions });
+      // New nodes grow in from their (first) parent
+      const parentIds = new Map<string, string>();
+      layoutEdges.forEach(edge => {
+        if (!parentIds.has(edge.target)) parentIds.set(edge.target, edge.source);
       });
+      layoutAnimation.animateTo(positions, nodeId => parentIds.get(nodeId), () => {
+        setTimeout(() => fitView({ padding: 50 }), 100);
+      });
+    });
+  }, [visible, integrity, layoutSettings, layoutAnimation, fitView]);
 
-      // Apply post-processing to output tree
-      const alignedOutputNodes = alignSiblingsAtTop(outputLaidOutNodes, [
-        ...edges.filter(edge => edge.source === END_NODE_ID),
-        ...outputTreeEdges
-      ]);
-      const centeredOutputNodes = centerParentsOverChildren(alignedOutputNodes, [
-        ...edges.filter(edge => edge.source === END_NODE_ID),
-        ...outputTreeEdges
-      ]);
-      
-      // Apply enhanced centering to output tree as well
-      const skewCorrectedOutputNodes = centerInputNodeForSkewedGraph(centeredOutputNodes, [
-        ...edges.filter(edge => edge.source === END_NODE_ID),
-        ...outputTreeEdges
-      ]);
-      
-      finalOutputNodes = constrainChildrenToParent(skewCorrectedOutputNodes, [
-        ...edges.filter(edge => edge.source === END_NODE_ID),
-        ...outputTreeEdges
-      ]);
-    }
+  /**
+   * Apply a structural edit, record it in the undo history and autosave the result.
+   * Layout runs afterwards as usual, so its position changes never become entries of their own,
+   * and drags and layout animations never rewrite the saved document.
+   */
+  const commitEdit = useCallback((label: string, nextGraph: FlowGraph, nextNodeCounter = nodeCounter) => {
+    const before: FlowSnapshot = { graph: { nodes, edges }, nodeCounter };
+    const after: FlowSnapshot = { graph: nextGraph, nodeCounter: nextNodeCounter };
+    setHistory((prev) => pushCommand(prev, { label, before, after }));
+    autosaveFlow(after);
+    setNodes(nextGraph.nodes);
+    setEdges(nextGraph.edges);
+    setNodeCounter(nextNodeCounter);
+  }, [nodes, edges, nodeCounter]);
+
+  // Undo and redo land here, so they autosave like any other edit
+  const restoreSnapshot = useCallback((snapshot: FlowSnapshot) => {
+    autosaveFlow(snapshot);
+    setNodes(snapshot.graph.nodes);
+    setEdges(snapshot.graph.edges);
+    setNodeCounter(snapshot.nodeCounter);
+  }, []);
+
+  const undo = useCallback(() => {
+    const step = undoCommand(history);
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.command.before);
+  }, [history, restoreSnapshot]);
+
+  const redo = useCallback(() => {
+    const step = redoCommand(history);
+    if (!step) return;
+    setHistory(step.history);
+    restoreSnapshot(step.command.after);
+  }, [history, restoreSnapshot]);
 
-    if (finalOutputNodes.length > 0) {
-      return [...finalMainNodes, ...finalOutputNodes];
-    } else if (positionedEndNode) {
-      return [...finalMainNodes, positionedEndNode];
-    } else {
-      return finalMainNodes;
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), except during a run
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (runMode || !(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return;
+      if (isTextEntry(event.target)) return;
+      event.preventDefault();
+      if (event.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [undo, redo, runMode]);
+
+  /**
+   * Build the next new node of the given type, named hierarchically after the node it hangs from.
+   * It is sized by its content once rendered.
+   */
+  const createNextNode = useCallback((parentId: string | undefined, typeId: string) => {
+    const parentLabel = nodes.find(n => n.id === parentId)?.data.label ?? 'Root';
+    return createFlowNode(`node-${nodeCounter}`, { label: `${parentLabel} -> Node ${nodeCounter}` }, typeId);
+  }, [nodes, nodeCounter]);
+
+  const onNodeClick: NodeMouseHandler = useCallback((event, node) => {
+    event.stopPropagation();
+    if (runMode) return;
+
+    // A plain click only selects the node, which React Flow does itself. While picking an extra
+    // parent, the click chooses the parent instead
+    if (!linkingChildId) return;
+    const validation = validateConnection({ nodes, edges }, node.id, linkingChildId);
+    if (!validation.valid) {
+      setConnectionRejection({ nodeId: node.id, reason: validation.reason });
+      return;
     }
-  } catch (error) {
-    console.error('Layout calculation failed:', error);
-    return nodes; // Return original nodes as fallback
-  }
-}
+    setLinkingChildId(null);
+    commitEdit('Add parent', connectNodes({ nodes, edges }, node.id, linkingChildId));
+  }, [nodes, edges, commitEdit, linkingChildId, runMode]);
 
-// Helper function to center parent nodes over their children (preserves ELK spacing)
-function centerParentsOverChildren(nodes: Node[], edges: Edge[]): Node[] {
-  const adjustedNodes = [...nodes];
-  
-  // Build parent -> children map
-  const childrenMap = new Map<string, string[]>();
-  edges.forEach(edge => {
-    if (!childrenMap.has(edge.source)) {
-      childrenMap.set(edge.source, []);
+  // Add a child of the first type the node allows; the context menu offers the others
+  const addFirstAllowedChild = useCallback((nodeId: string) => {
+    if (runMode) return;
+    const graph = { nodes, edges };
+    const node = nodes.find(n => n.id === nodeId);
+    const [childType] = getAllowedNewNodeTypes(graph, [nodeId], getNewLeafChildIds(graph, nodeId));
+    if (!childType) {
+      setConnectionRejection({ nodeId, reason: `${getNodeType(node?.type).label} nodes can't have children.` });
+      return;
     }
-    childrenMap.get(edge.source)!.push(edge.target);
-  });
-  
-  // Function to get tree depth for ordering
-  const getTreeDepth = (nodeId: string): number => {
-    const children = childrenMap.get(nodeId) || [];
-    if (children.length === 0) return 0;
-    return 1 + Math.max(...children.map(child => getTreeDepth(child)));
-  };
-  
-  // Get all nodes with children, sorted by depth (deepest first)
-  const parentsWithChildren = Array.from(childrenMap.entries())
-    .filter(([, children]) => children.length > 0)
-    .map(([parentId]) => ({ 
-      id: parentId, 
-      depth: getTreeDepth(parentId) 
-    }))
-    .sort((a, b) => a.depth - b.depth); // Process deepest parents first
-  
-  // Center each parent over its children, but DON'T move the children
-  // This preserves ELK's spacing between branches while centering parents visually
-  parentsWithChildren.forEach(({ id: parentId }) => {
-    const children = childrenMap.get(parentId) || [];
-    if (children.length === 0) return;
-    
-    // Get current positions of all children
-    const childNodes = children
-      .map(childId => adjustedNodes.find(node => node.id === childId))
-      .filter(node => node !== undefined) as Node[];
-    
-    if (childNodes.length === 0) return;
-    
-    // Calculate the center point of all children
-    const childrenLeftmost = Math.min(...childNodes.map(child => child.position.x));
-    const childrenRightmost = Math.max(...childNodes.map(child => child.position.x + (child.width || DEFAULT_NODE_WIDTH)));
-    const childrenCenter = (childrenLeftmost + childrenRightmost) / 2;
-    
-    // Find the parent node and center it over children (but don't move children)
-    const parentIndex = adjustedNodes.findIndex(node => node.id === parentId);
-    if (parentIndex !== -1) {
-      const parent = adjustedNodes[parentIndex];
-      const parentWidth = parent.width || DEFAULT_NODE_WIDTH;
-      const newParentX = childrenCenter - (parentWidth / 2);
-      
-      // Only move the parent, not its children - this preserves ELK's spacing
-      adjustedNodes[parentIndex] = {
-        ...parent,
-        position: {
-          ...parent.position,
-          x: newParentX
-        }
-      };
+    commitEdit('Add node', addChildNode(graph, nodeId, createNextNode(nodeId, childType.id)), nodeCounter + 1);
+  }, [nodes, edges, nodeCounter, commitEdit, createNextNode, runMode]);
+
+  // Selected with a click; Ctrl/Cmd-click or Shift-drag selects several
+  const selectedNodes = useMemo(() => nodes.filter(node => node.selected), [nodes]);
+  // The properties panel shows the node while it is the only one selected
+  const selectedNode = selectedNodes.length === 1 ? selectedNodes[0] : null;
+
+  // The subtrees of the given nodes as clipboard text, or null if none of them can be copied
+  const copySubtrees = useCallback((nodeIds: string[]) => {
+    const fragment = getSubtreeFragment({ nodes, edges }, nodeIds);
+    return fragment.nodes.length > 0 ? serializeFragment(fragment, nodeCounter) : null;
+  }, [nodes, edges, nodeCounter]);
+
+  const cutSubtrees = useCallback((nodeIds: string[]) => {
+    commitEdit('Cut', deleteSubtrees({ nodes, edges }, nodeIds));
+  }, [nodes, edges, commitEdit]);
+
+  // Paste copied subtrees under the node, with fresh ids from the node counter
+  const pasteSubtrees = useCallback((fragment: FlowGraph, parentId: string) => {
+    const graph = { nodes, edges };
+    const validation = validatePaste(graph, fragment, parentId);
+    if (!validation.valid) {
+      setConnectionRejection({ nodeId: parentId, reason: validation.reason });
+      return;
     }
-  });
-  
-  return adjustedNodes;
-}
+    commitEdit('Paste', pasteFragment(graph, fragment, parentId, nodeCounter), nodeCounter + fragment.nodes.length);
+  }, [nodes, edges, nodeCounter, commitEdit]);
 
-// Helper function to constrain child nodes to be within reasonable vertical distance from parent
-function constrainChildrenToParent(nodes: Node[], edges: Edge[]): Node[] {
-  const MAX_VERTICAL_GAP = NODE_SPACING; // Maximum allowed vertical gap between parent and child
-  const constrainedNodes = [...nodes];
-  
-  // For each edge, check if child is too far from parent and adjust if needed
-  edges.forEach(edge => {
-    const parentNode = constrainedNodes.find(node => node.id === edge.source);
-    const childIndex = constrainedNodes.findIndex(node => node.id === edge.target);
-    
-    if (parentNode && childIndex !== -1) {
-      const childNode = constrainedNodes[childIndex];
-      const parentBottom = parentNode.position.y + (parentNode.height || DEFAULT_NODE_HEIGHT);
-      const currentGap = childNode.position.y - parentBottom;
-      
-      // If child is too far from parent, move it closer
-      if (currentGap > MAX_VERTICAL_GAP) {
-        constrainedNodes[childIndex] = {
-          ...childNode,
-          position: {
-            ...childNode.position,
-            y: parentBottom + MAX_VERTICAL_GAP
-          }
-        };
+  const duplicate = useCallback((nodeIds: string[]) => {
+    const graph = { nodes, edges };
+    const size = getSubtreeFragment(graph, nodeIds).nodes.length;
+    if (size === 0) return;
+    commitEdit('Duplicate', duplicateSubtrees(graph, nodeIds, nodeCounter), nodeCounter + size);
+  }, [nodes, edges, nodeCounter, commitEdit]);
+
+  // Ctrl+C, Ctrl+X and Ctrl+V (Cmd on macOS) copy, cut and paste the selected subtrees through the
+  // system clipboard, so they can go to another tab; Ctrl+D duplicates them in place
+  useEffect(() => {
+    if (runMode) return;
+    const selectedIds = selectedNodes.map(node => node.id);
+    const onCopy = (event: ClipboardEvent) => {
+      if (isTextEntry(event.target) || !event.clipboardData) return;
+      const text = copySubtrees(selectedIds);
+      if (!text) return;
+      event.preventDefault();
+      event.clipboardData.setData('text/plain', text);
+      if (event.type === 'cut') cutSubtrees(selectedIds);
+    };
+    const onPaste = (event: ClipboardEvent) => {
+      if (isTextEntry(event.target) || !event.clipboardData) return;
+      // Anything but copied subtrees is left to the browser
+      let fragment: FlowGraph;
+      try {
+        fragment = parseFragment(event.clipboardData.getData('text/plain'));
+      } catch {
+        return;
       }
-    }
-  });
-  
-  return constrainedNodes;
-}
+      event.preventDefault();
+      if (selectedIds.length !== 1) {
+        setAlertMessage('Select the one node to paste under.');
+        return;
+      }
+      pasteSubtrees(fragment, selectedIds[0]);
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'd' || isTextEntry(event.target)) return;
+      // Also keeps the browser from bookmarking the page
+      event.preventDefault();
+      duplicate(selectedIds);
+    };
+    document.addEventListener('copy', onCopy);
+    document.addEventListener('cut', onCopy);
+    document.addEventListener('paste', onPaste);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      document.removeEventListener('copy', onCopy);
+      document.removeEventListener('cut', onCopy);
+      document.removeEventListener('paste', onPaste);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [selectedNodes, copySubtrees, cutSubtrees, pasteSubtrees, duplicate, runMode]);
 
-// Helper function to align sibling nodes at their top edges
-function alignSiblingsAtTop(nodes: Node[], edges: Edge[]): Node[] {
-  if (nodes.length === 0) return nodes;
+  // The context menus only hold edits, so there are none while a run is in progress
+  const onNodeContextMenu: NodeMouseHandler = useCallback((event, node) => {
+    event.preventDefault();
+    if (runMode) return;
+    setContextMenu({ kind: 'node', id: node.id, x: event.clientX, y: event.clientY });
+  }, [runMode]);
 
-  // Build a map of parent -> children relationships
-  const childrenMap = new Map<string, string[]>();
-  edges.forEach(edge => {
-    if (!childrenMap.has(edge.source)) {
-      childrenMap.set(edge.source, []);
+  const onEdgeContextMenu: EdgeMouseHandler = useCallback((event, edge) => {
+    event.preventDefault();
+    if (runMode) return;
+    setContextMenu({ kind: 'edge', id: edge.id, x: event.clientX, y: event.clientY });
+  }, [runMode]);
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  // Insert and add actions for the node or edge the context menu was opened on, one per node type allowed there
+  const contextMenuItems = useMemo<ContextMenuItem[]>(() => {
+    if (!contextMenu) return [];
+    const graph = { nodes, edges };
+    const nextCounter = nodeCounter + 1;
+    // One item per type the new node may have between these parents and children, or one
+    // disabled item if there is none or the slot doesn't exist
+    const typedItems = (
+      label: string,
+      parentIds: string[],
+      childIds: string[],
+      onSelect: (typeId: string) => void,
+      available = true
+    ): ContextMenuItem[] => {
+      const types = available ? getAllowedNewNodeTypes(graph, parentIds, childIds) : [];
+      if (types.length === 0) return [{ label, disabled: true, onSelect: () => {} }];
+      return types.map(type => ({ label: `${label}: ${type.label}`, onSelect: () => onSelect(type.id) }));
+    };
+
+    if (contextMenu.kind === 'edge') {
+      const edge = edges.find(e => e.id === contextMenu.id);
+      // Summarised edges of collapsed nodes aren't part of the graph
+      return typedItems('Insert node here', edge ? [edge.source] : [], edge ? [edge.target] : [], (typeId) => {
+        commitEdit('Insert node', insertNodeOnEdge(graph, contextMenu.id, createNextNode(edge?.source, typeId)), nextCounter);
+      }, Boolean(edge));
     }
-    childrenMap.get(edge.source)!.push(edge.target);
-  });
+    const nodeId = contextMenu.id;
+    const parentIds = getParentIds(nodeId, edges);
+    // The root and the end node have no parents, so nothing goes before or beside them
+    const hasParentSlot = canDeleteNode(nodeId);
+    // Clipboard actions take the whole selection when the menu is opened on one of its nodes
+    const selectedIds = selectedNodes.map(node => node.id);
+    const targetIds = selectedIds.includes(nodeId) ? selectedIds : [nodeId];
+    const canCopy = targetIds.some(canDeleteNode);
+    const clipboardItems: ContextMenuItem[] = [
+      {
+        label: targetIds.length > 1 ? `Copy ${targetIds.length} subtrees` : 'Copy subtree',
+        disabled: !canCopy,
+        onSelect: () => {
+          const text = copySubtrees(targetIds);
+          if (!text) return;
+          navigator.clipboard.writeText(text).catch(() => {
+            setAlertMessage('The browser blocked access to the clipboard; use Ctrl+C instead.');
+          });
+        },
+      },
+      {
+        label: targetIds.length > 1 ? `Cut ${targetIds.length} subtrees` : 'Cut subtree',
+        disabled: !canCopy,
+        onSelect: () => {
+          const text = copySubtrees(targetIds);
+          if (!text) return;
+          // Only cut once the copy is safely on the clipboard
+          navigator.clipboard.writeText(text).then(() => cutSubtrees(targetIds), () => {
+            setAlertMessage('The browser blocked access to the clipboard; use Ctrl+X instead.');
+          });
+        },
+      },
+      {
+        label: 'Paste as child',
+        onSelect: () => {
+          navigator.clipboard.readText().then(text => {
+            let fragment: FlowGraph;
+            try {
+              fragment = parseFragment(text);
+            } catch (error) {
+              setAlertMessage(`Paste failed: ${error instanceof FlowDocumentError ? error.message : 'Could not read the clipboard.'}`);
+              return;
+            }
+            pasteSubtrees(fragment, nodeId);
+          }, () => {
+            setAlertMessage('The browser blocked access to the clipboard; select the node and use Ctrl+V instead.');
+          });
+        },
+      },
+      {
+        label: targetIds.length > 1 ? `Duplicate ${targetIds.length} subtrees` : 'Duplicate subtree',
+        disabled: !canCopy,
+        onSelect: () => duplicate(targetIds),
+      },
+    ];
+    return [
+      ...typedItems('Insert before', parentIds, [nodeId], (typeId) => {
+        commitEdit('Insert node', insertNodeBefore(graph, nodeId, createNextNode(parentIds[0], typeId)), nextCounter);
+      }, hasParentSlot),
+      ...typedItems('Insert after', [nodeId], getChildIds(nodeId, edges), (typeId) => {
+        commitEdit('Insert node', insertNodeAfter(graph, nodeId, createNextNode(nodeId, typeId)), nextCounter);
+      }),
+      ...typedItems('Add sibling', parentIds, hasParentSlot ? getNewLeafChildIds(graph, parentIds[0]) : [], (typeId) => {
+        commitEdit('Add node', addSiblingNode(graph, nodeId, createNextNode(parentIds[0], typeId)), nextCounter);
+      }, hasParentSlot),
+      ...typedItems('Add child', [nodeId], getNewLeafChildIds(graph, nodeId), (typeId) => {
+        commitEdit('Add node', addChildNode(graph, nodeId, createNextNode(nodeId, typeId)), nextCounter);
+      }),
+      ...clipboardItems,
+    ];
+  }, [contextMenu, nodes, edges, nodeCounter, commitEdit, createNextNode, selectedNodes, copySubtrees, cutSubtrees, pasteSubtrees, duplicate]);
 
-  const alignedNodes = [...nodes];
-  
-  // For each parent that has multiple children, align those children at their top edges
-  childrenMap.forEach((childrenIds) => {
-    if (childrenIds.length > 1) {
-      // Get the actual child nodes
-      const childNodes = childrenIds
-        .map(childId => alignedNodes.find(node => node.id === childId))
-        .filter(node => node !== undefined) as Node[];
-      
-      if (childNodes.length > 1) {
-        // Find the topmost Y position among these sibling nodes
-        const topY = Math.min(...childNodes.map(node => node.position.y));
-        
-        // Align all sibling nodes to this topmost Y position
-        childNodes.forEach(childNode => {
-          const nodeIndex = alignedNodes.findIndex(n => n.id === childNode.id);
-          if (nodeIndex !== -1) {
-            alignedNodes[nodeIndex] = {
-              ...alignedNodes[nodeIndex],
-              position: {
-                ...alignedNodes[nodeIndex].position,
-                y: topY
-              }
-            };
-          }
-        });
+  // Node under the pointer while another node is dragged, ignoring the dragged node itself
+  const findDropTargetId = useCallback((event: React.MouseEvent, dragged: Node): string | null => {
+    const point = screenToFlowPosition({ x: event.clientX, y: event.clientY });
+    const underPointer = getIntersectingNodes({ x: point.x, y: point.y, width: 1, height: 1 })
+      .filter(node => node.id !== dragged.id);
+    return underPointer.length > 0 ? underPointer[underPointer.length - 1].id : null;
+  }, [getIntersectingNodes, screenToFlowPosition]);
+
+  const onNodeDrag: NodeDragHandler = useCallback((event, node) => {
+    const targetId = findDropTargetId(event, node);
+    setDropTarget((current) => {
+      if ((current?.nodeId ?? null) === targetId) return current;
+      return targetId
+        ? { nodeId: targetId, validation: validateReparent({ nodes, edges }, node.id, targetId) }
+        : null;
+    });
+  }, [nodes, edges, findDropTargetId]);
+
+  // Dropping a node onto another moves it, with its subtree, under that node.
+  // Dragging a pinned node elsewhere re-pins it where it was dropped; other nodes go back
+  // to their laid-out place at the next layout unless the user pins them.
+  const onNodeDragStop: NodeDragHandler = useCallback((event, node) => {
+    setDropTarget(null);
+    if (runMode) return;
+    const graph = { nodes, edges };
+    const targetId = findDropTargetId(event, node);
+    if (targetId) {
+      const validation = validateReparent(graph, node.id, targetId);
+      if (validation.valid) {
+        setConnectionRejection(null);
+        commitEdit('Move node', reparentNode(graph, node.id, targetId));
+      } else {
+        setConnectionRejection({ nodeId: targetId, reason: validation.reason });
+        applyLayout(); // Put the dragged node back
       }
+      return;
     }
-  });
+    if (!node.data?.pinnedPosition) return;
+    const { x, y } = node.data.pinnedPosition;
+    if (x === node.position.x && y === node.position.y) return;
+    commitEdit('Move pinned node', setNodePinned(graph, node.id, node.position));
+  }, [nodes, edges, commitEdit, findDropTargetId, applyLayout, runMode]);
 
-  return alignedNodes;
-}
+  // Drag from a node's bottom handle to another node's top handle to link them
+  const onConnect = useCallback((connection: Connection) => {
+    const { source, target } = connection;
+    if (runMode || !source || !target) return;
+    const validation = validateConnection({ nodes, edges }, source, target);
+    if (!validation.valid) {
+      setConnectionRejection({ nodeId: target, reason: validation.reason });
+      return;
+    }
+    setConnectionRejection(null);
+    commitEdit('Connect nodes', connectNodes({ nodes, edges }, source, target));
+  }, [nodes, edges, commitEdit, runMode]);
 
-// Helper function to check if a node is a descendant of the output node
-function isDescendantOfOutput(nodeId: string, edges: Edge[]): boolean {
-  // Find all ancestors of the given node by traversing upward
-  const getAncestors = (id: string): string[] => {
-    const parentEdge = edges.find(edge => edge.target === id);
-    if (!parentEdge) return [];
-    return [parentEdge.source, ...getAncestors(parentEdge.source)];
-  };
-  
-  const ancestors = getAncestors(nodeId);
-  return ancestors.includes(END_NODE_ID);
-}
+  // Rejection reasons fade after a few seconds
+  useEffect(() => {
+    if (!connectionRejection) return;
+    const timeout = setTimeout(() => setConnectionRejection(null), CONNECTION_REJECTION_TIMEOUT);
+    return () => clearTimeout(timeout);
+  }, [connectionRejection]);
 
-// Helper function to get all descendants of the output node
-function getOutputTreeDescendants(edges: Edge[]): string[] {
-  const getDescendants = (nodeId: string): string[] => {
-    const children = edges.filter(edge => edge.source === nodeId).map(edge => edge.target);
-    const allDescendants = [...children];
-    children.forEach(childId => {
-      allDescendants.push(...getDescendants(childId));
+  const nodeDecorations = useMemo(() => {
+    const decorations = new Map<string, NodeDecoration>();
+    const decorationFor = (nodeId: string) => {
+      if (!decorations.has(nodeId)) decorations.set(nodeId, emptyDecoration());
+      return decorations.get(nodeId)!;
+    };
+    if (dropTarget) {
+      const decoration = decorationFor(dropTarget.nodeId);
+      decoration.highlight = dropTarget.validation.valid ? 'drop-target' : 'invalid-drop-target';
+      if (!dropTarget.validation.valid) {
+        decoration.notices.push({ kind: 'error', message: dropTarget.validation.reason });
+      }
+    } else if (connectionRejection) {
+      decorationFor(connectionRejection.nodeId).notices.push({ kind: 'error', message: connectionRejection.reason });
+    }
+    // One badge per affected node, summarising all of its problems in the tooltip
+    const issuesByNode = new Map<string, GraphIssue[]>();
+    integrity.issues.forEach(issue => {
+      issue.nodeIds.forEach(nodeId => {
+        issuesByNode.set(nodeId, [...(issuesByNode.get(nodeId) || []), issue]);
+      });
     });
-    return allDescendants;
-  };
-  
-  return getDescendants(END_NODE_ID);
-}
+    visible.hiddenCounts.forEach((count, nodeId) => {
+      decorationFor(nodeId).badges.push({
+        kind: 'info',
+        label: `+${count} hidden`,
+        title: `${count} node${count === 1 ? '' : 's'} hidden under this collapsed node`,
+      });
+    });
+    issuesByNode.forEach((issues, nodeId) => {
+      decorationFor(nodeId).badges.push({
+        kind: issues.some(issue => issue.severity === 'error') ? 'error' : 'warning',
+        label: `⚠ ${issues.length}`,
+        title: issues.map(issue => issue.message).join('\n'),
+      });
+    });
+    if (runMode) {
+      const activeNodeId = flowRun.state.activeNodeId;
+      if (activeNodeId && !decorations.get(activeNodeId)?.highlight) {
+        decorationFor(activeNodeId).highlight = 'run-active';
+      }
+      // Each executed node lists its own log entries in the tooltip
+      const entriesByNode = new Map<string, RunLogEntry[]>();
+      flowRun.state.log.forEach(entry => {
+        entriesByNode.set(entry.nodeId, [...(entriesByNode.get(entry.nodeId) || []), entry]);
+      });
+      entriesByNode.forEach((entries, nodeId) => {
+        decorationFor(nodeId).badges.push({
+          kind: entries.some(entry => entry.outcome === 'failed') ? 'error' : 'info',
+          label: `▶ ${entries.map(entry => entry.step).join(', ')}`,
+          title: entries.map(entry => `Step ${entry.step}: ${entry.message}`).join('\n'),
+        });
+      });
+    }
+    return decorations;
+  }, [connectionRejection, dropTarget, integrity, visible.hiddenCounts, runMode, flowRun.state]);
 
-function Flow() {
-  const [nodes, setNodes] = useState<Node[]>(initialNodes);
-  const [edges, setEdges] = useState<Edge[]>(initialEdges);
-  const [nodeCounter, setNodeCounter] = useState(1);
-  const { fitView } = useReactFlow();
+  const focusIssue = useCallback((issue: GraphIssue) => {
+    fitView({ nodes: issue.nodeIds.map(id => ({ id })), padding: 0.2, duration: 300 });
+  }, [fitView]);
 
-  const applyLayout = useCallback(() => {
-    layoutWithElk(nodes, edges).then((laidOutNodes) => {
-      setNodes(laidOutNodes);
-      setTimeout(() => fitView({ padding: 50 }), 100);
-    });
-  }, [nodes, edges, fitView]);
+  const focusNode = useCallback((nodeId: string) => {
+    fitView({ nodes: [{ id: nodeId }], padding: 0.2, duration: 300 });
+  }, [fitView]);
 
-  const onNodeClick: NodeMouseHandler = useCallback((event, node) => {
-    event.stopPropagation();
-    
-    // Build the hierarchical name based on parent's label
-    const parentLabel = node.data.label as string;
-    const newNodeLabel = `${parentLabel} -> Node ${nodeCounter}`;
-    
-    // Generate random height between MIN_RANDOM_HEIGHT-MAX_RANDOM_HEIGHT px
-    const randomHeight = Math.floor(Math.random() * (MAX_RANDOM_HEIGHT - MIN_RANDOM_HEIGHT + 1)) + MIN_RANDOM_HEIGHT;
-    
-    // Create a new node
-    const newNodeId = `node-${nodeCounter}`;
-    const newNode: Node = {
-      id: newNodeId,
-      type: "customNode",
-      data: { label: newNodeLabel, originalHeight: randomHeight },
-      position: { x: 0, y: 0 }, // Will be positioned by ELK
-      width: DEFAULT_NODE_WIDTH,
-      height: randomHeight,
-      style: { width: DEFAULT_NODE_WIDTH, height: randomHeight }
+  // Select just the given node, or nothing
+  const selectOnly = useCallback((nodeId: string | null) => {
+    setNodes((nds) => nds.map(node => Boolean(node.selected) === (node.id === nodeId) ? node : { ...node, selected: node.id === nodeId }));
+  }, []);
+
+  const leaveRunMode = useCallback(() => {
+    flowRun.reset();
+    setRunMode(false);
+  }, [flowRun]);
+
+  // Escape cancels picking an extra parent
+  useEffect(() => {
+    if (!linkingChildId) return;
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setLinkingChildId(null);
     };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [linkingChildId]);
 
-    // Update edges based on which node was clicked
-    if (node.id === END_NODE_ID) {
-      // If clicking the output node, just add a child to it (no connection back to output)
-      setEdges((prevEdges) => [
-        ...prevEdges,
-        {
-          id: `edge-${node.id}-${newNodeId}`,
-          source: node.id,
-          target: newNodeId,
-        }
-      ]);
-    } else {
-      // Check if the clicked node is a descendant of the output node
-      const isOutputTreeNode = isDescendantOfOutput(node.id, edges);
-      
-      if (isOutputTreeNode) {
-        // For output tree nodes: just add child, no connection back to output
-        setEdges((prevEdges) => [
-          ...prevEdges,
-          {
-            id: `edge-${node.id}-${newNodeId}`,
-            source: node.id,
-            target: newNodeId,
-          }
-        ]);
-      } else {
-        // Original behavior for main tree nodes:
-        // 1. Remove any existing edge from clicked node to end node
-        // 2. Add edge from clicked node to new node
-        // 3. Add edge from new node to end node
-        setEdges((prevEdges) => {
-          const filteredEdges = prevEdges.filter(edge => 
-            !(edge.source === node.id && edge.target === END_NODE_ID)
-          );
-          
-          return [
-            ...filteredEdges,
-            {
-              id: `edge-${node.id}-${newNodeId}`,
-              source: node.id,
-              target: newNodeId,
-            },
-            {
-              id: `edge-${newNodeId}-${END_NODE_ID}`,
-              source: newNodeId,
-              target: END_NODE_ID,
-            }
-          ];
-        });
-      }
-    }
+  // Everything the layout depends on: structure, layout settings and the sizes React Flow measured
+  // for each node. Positions are left out, so applying a layout doesn't trigger another one.
+  const layoutKey = useMemo(() => [
+    JSON.stringify(layoutSettings),
+    visible.graph.nodes.map(n => {
+      const pin = n.data?.pinnedPosition;
+      return `${n.id}:${n.width}x${n.height}${pin ? `@${pin.x},${pin.y}` : ''}`;
+    }).join(','),
+    visible.graph.edges.map(e => `${e.source}>${e.target}`).join(','),
+  ].join('|'), [visible, layoutSettings]);
 
-    // Add the new node
-    setNodes((prevNodes) => [...prevNodes, newNode]);
-    setNodeCounter((prev) => prev + 1);
-  }, [nodeCounter, edges]);
+  const applyLayoutRef = useRef(applyLayout);
+  useEffect(() => {
+    applyLayoutRef.current = applyLayout;
+  }, [applyLayout]);
 
-  // Use useMemo for nodeHeights to optimize performance
-  const nodeHeights = useMemo(() => 
-    nodes.map(n => n.height), [nodes]
-  );
+  // Lay out again, debounced, whenever the graph changes or node content resizes
+  useEffect(() => {
+    if (nodes.length === 0) return;
+    const timeout = setTimeout(() => applyLayoutRef.current(), LAYOUT_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [layoutKey, nodes.length]);
 
-  // Apply layout whenever nodes or edges change (including height changes)
+  // Remember the layout settings for the next session
   useEffect(() => {
-    if (nodes.length > 0) {
-      applyLayout();
-    }
-  }, [nodes.length, edges.length, nodeHeights, applyLayout]);
+    saveLayoutSettings(layoutSettings);
+  }, [layoutSettings]);
+
+  const hasPinnedNodes = nodes.some(node => node.data?.pinnedPosition);
+  const unpinAll = useCallback(() => {
+    commitEdit('Unpin all', unpinAllNodes({ nodes, edges }));
+  }, [nodes, edges, commitEdit]);
 
   const resetGraph = useCallback(() => {
-    setNodes(initialNodes);
-    setEdges(initialEdges);
-    setNodeCounter(1);
-  }, []);
+    commitEdit('Reset', { nodes: initialNodes, edges: initialEdges }, 1);
+  }, [commitEdit]);
+
+  const exportFlow = useCallback(() => {
+    downloadFlow({ graph: { nodes, edges }, nodeCounter });
+  }, [nodes, edges, nodeCounter]);
+
+  const exportDiagram = useCallback((format: DiagramFormat) => {
+    downloadDiagram({ nodes, edges }, format);
+  }, [nodes, edges]);
+
+  const importFlow = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const snapshot = await readFlowFile(file);
+      setAlertMessage(null);
+      commitEdit('Import', snapshot.graph, snapshot.nodeCounter);
+    } catch (error) {
+      setAlertMessage(
+        `Import failed: ${error instanceof FlowDocumentError ? error.message : `Could not read ${file.name}.`}`
+      );
+    }
+  }, [commitEdit]);
+
+  // Render the whole graph, not just the visible part of the canvas. Bounds come from where the
+  // nodes are now, so nodes dragged since the last layout aren't cut off.
+  const exportImage = useCallback(async (format: 'svg' | 'png') => {
+    const bounds = getLayoutBounds(visible.graph.nodes.map(node => ({
+      id: node.id,
+      position: node.position,
+      width: node.width || getNodeType(node.type).defaultSize.width,
+      height: node.height || getNodeType(node.type).defaultSize.height,
+    })));
+    const image = renderFlowSvg(visible.graph.nodes, styledEdges, bounds, direction);
+    if (format === 'svg') {
+      downloadBlob(new Blob([image.svg], { type: 'image/svg+xml' }), 'flow.svg');
+      return;
+    }
+    try {
+      downloadBlob(await rasterizeSvg(image), 'flow.png');
+    } catch (error) {
+      console.error('PNG export failed:', error);
+      setAlertMessage('PNG export failed: the browser could not render the image.');
+    }
+  }, [visible, styledEdges, direction]);
+
+  // Every action is a no-op while a run is in progress, so the graph can't change under the run
+  const flowActions = useMemo<FlowActions>(() => ({
+    editable: !runMode,
+    deleteNode: (nodeId, mode) => {
+      if (runMode) return;
+      const graph = { nodes, edges };
+      if (mode === 'subtree') {
+        commitEdit('Delete subtree', deleteSubtree(graph, nodeId));
+      } else {
+        commitEdit('Delete node', deleteNode(graph, nodeId));
+      }
+    },
+    startAddParent: (nodeId) => {
+      if (runMode) return;
+      setLinkingChildId(nodeId);
+    },
+    setPinned: (nodeId, pinned) => {
+      const node = nodes.find(n => n.id === nodeId);
+      if (runMode || !node) return;
+      commitEdit(pinned ? 'Pin node' : 'Unpin node', setNodePinned({ nodes, edges }, nodeId, pinned ? node.position : null));
+    },
+    setCollapsed: (nodeId, collapsed) => {
+      if (runMode) return;
+      commitEdit(collapsed ? 'Collapse node' : 'Expand node', setNodeCollapsed({ nodes, edges }, nodeId, collapsed));
+    },
+    addChild: addFirstAllowedChild,
+    setLabel: (nodeId, label) => {
+      if (runMode) return;
+      commitEdit('Rename node', setNodeLabel({ nodes, edges }, nodeId, label));
+    },
+    setField: (nodeId, key, value) => {
+      if (runMode) return;
+      commitEdit('Edit field', setNodeField({ nodes, edges }, nodeId, key, value));
+    },
+  }), [nodes, edges, commitEdit, addFirstAllowedChild, runMode]);
 
   return (
-    <>
-      <div style={{ position: "absolute", zIndex: 10, top: 10, left: 10, display: "flex", gap: "10px" }}>
-        <button onClick={applyLayout} aria-label="Re-layout graph">
-          Re-layout
-        </button>
-        <button onClick={resetGraph} aria-label="Reset graph to initial state">
-          Reset
-        </button>
-      </div>
-      <ReactFlow
-        nodes={nodes}
-        edges={applyConsistentEdgeStyles(edges)}
-        nodeTypes={nodeTypes}
-        onNodesChange={(changes) => setNodes((nds) => applyNodeChanges(changes, nds))}
-        onEdgesChange={(changes) => setEdges((eds) => applyEdgeChanges(changes, eds))}
-        onNodeClick={onNodeClick}
-        fitView
-      >
-        <Background />
-        <Controls />
-      </ReactFlow>
-    </>
+    <FlowActionsContext.Provider value={flowActions}>
+      <NodeDecorationsContext.Provider value={nodeDecorations}>
+      <LayoutDirectionContext.Provider value={direction}>
+        <div style={{ position: "absolute", zIndex: 10, top: 10, left: 10, display: "flex", gap: "10px" }}>
+          <button onClick={applyLayout} aria-label="Re-layout graph">
+            Re-layout
+          </button>
+          <button
+            onClick={() => setShowLayoutSettings(show => !show)}
+            aria-pressed={showLayoutSettings}
+            aria-label="Show layout settings"
+          >
+            Layout settings
+          </button>
+          <button
+            onClick={() => runMode ? leaveRunMode() : setRunMode(true)}
+            aria-pressed={runMode}
+            aria-label="Step through the flow from the root to the end"
+          >
+            Run
+          </button>
+          <button onClick={unpinAll} disabled={runMode || !hasPinnedNodes} aria-label="Unpin every pinned node">
+            Unpin all
+          </button>
+          <button onClick={resetGraph} disabled={runMode} aria-label="Reset graph to initial state">
+            Reset
+          </button>
+          <button onClick={undo} disabled={runMode || history.past.length === 0} aria-label="Undo last edit">
+            Undo
+          </button>
+          <button onClick={redo} disabled={runMode || history.future.length === 0} aria-label="Redo last undone edit">
+            Redo
+          </button>
+          <button onClick={exportFlow} aria-label="Export flow as JSON">
+            Export
+          </button>
+          <button onClick={() => exportDiagram('mermaid')} aria-label="Export flow as a Mermaid flowchart">
+            Mermaid
+          </button>
+          <button onClick={() => exportDiagram('dot')} aria-label="Export flow as a Graphviz DOT graph">
+            DOT
+          </button>
+          <button onClick={() => importInputRef.current?.click()} disabled={runMode} aria-label="Import flow from JSON, Mermaid or DOT">
+            Import
+          </button>
+          <button
+            onClick={() => setShowLayoutDebug(show => !show)}
+            aria-pressed={showLayoutDebug}
+            aria-label="Highlight layout-quality violations"
+          >
+            {showLayoutDebug ? 'Hide layout check' : 'Layout check'}
+          </button>
+          <button onClick={() => exportImage('svg')} aria-label="Export whole flow as SVG image">
+            SVG
+          </button>
+          <button onClick={() => exportImage('png')} aria-label="Export whole flow as PNG image">
+            PNG
+          </button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept="application/json,.json,.mmd,.mermaid,.dot,.gv"
+            onChange={importFlow}
+            style={{ display: "none" }}
+          />
+        </div>
+        {linkingChildId && (
+          <div
+            role="status"
+            style={{
+              position: "absolute",
+              zIndex: 10,
+              bottom: 10,
+              left: "50%",
+              transform: "translateX(-50%)",
+              padding: "8px 12px",
+              backgroundColor: "#e3f2fd",
+              color: "#0d47a1",
+              border: "1px solid #2196f3",
+              borderRadius: "5px",
+              display: "flex",
+              gap: "10px",
+              alignItems: "center",
+            }}
+          >
+            Click the node that should also lead to "{nodes.find(n => n.id === linkingChildId)?.data.label}"
+            <button onClick={() => setLinkingChildId(null)} aria-label="Cancel adding a parent">
+              Cancel
+            </button>
+          </div>
+        )}
+        {alertMessage && (
+          <div
+            role="alert"
+            style={{
+              position: "absolute",
+              zIndex: 10,
+              top: 50,
+              left: 10,
+              padding: "8px 12px",
+              backgroundColor: "#ffebee",
+              color: "#b71c1c",
+              border: "1px solid #f44336",
+              borderRadius: "5px",
+              display: "flex",
+              gap: "10px",
+              alignItems: "center",
+            }}
+          >
+            {alertMessage}
+            <button onClick={() => setAlertMessage(null)} aria-label="Dismiss message">
+              Dismiss
+            </button>
+          </div>
+        )}
+        <ReactFlow
+          nodes={visible.graph.nodes}
+          edges={canvasEdges}
+          nodeTypes={nodeTypes}
+          edgeTypes={edgeTypes}
+          onNodesChange={(changes) => setNodes((nds) => applyNodeChanges(changes, nds))}
+          onEdgesChange={(changes) => setEdges((eds) => applyEdgeChanges(changes, eds))}
+          onNodeClick={onNodeClick}
+          onNodeContextMenu={onNodeContextMenu}
+          onEdgeContextMenu={onEdgeContextMenu}
+          onNodeDragStart={layoutAnimation.cancel}
+          onNodeDrag={onNodeDrag}
+          onNodeDragStop={onNodeDragStop}
+          onConnect={onConnect}
+          // A run walks the graph as it was when it started, so nothing moves or links meanwhile
+          nodesDraggable={!runMode}
+          nodesConnectable={!runMode}
+          // Nodes are deleted with their buttons, which keep the graph well formed and can be undone
+          deleteKeyCode={null}
+          fitView
+        >
+          <Background />
+          <Controls />
+          {showLayoutDebug && (
+            <LayoutQualityOverlay
+              nodes={visible.graph.nodes}
+              edges={visible.graph.edges.filter(edge => !integrity.unsafeEdgeIds.has(edge.id))}
+              direction={direction}
+              edgeRoutes={edgeRoutes}
+            />
+          )}
+        </ReactFlow>
+        {showLayoutSettings && (
+          <LayoutSettingsPanel
+            settings={layoutSettings}
+            onChange={setLayoutSettings}
+            onClose={() => setShowLayoutSettings(false)}
+          />
+        )}
+        <ProblemsPanel issues={integrity.issues} onSelectIssue={focusIssue} />
+        {runMode && <RunPanel run={flowRun} onSelectNode={focusNode} onClose={leaveRunMode} />}
+        {!runMode && selectedNode && (
+          <NodePropertiesPanel
+            graph={{ nodes, edges }}
+            node={selectedNode}
+            onSetLabel={(label) => flowActions.setLabel(selectedNode.id, label)}
+            onSetField={(key, value) => flowActions.setField(selectedNode.id, key, value)}
+            onSelectNode={(nodeId) => {
+              selectOnly(nodeId);
+              focusNode(nodeId);
+            }}
+            onClose={() => selectOnly(null)}
+          />
+        )}
+        {contextMenu && (
+          <ContextMenu x={contextMenu.x} y={contextMenu.y} items={contextMenuItems} onClose={closeContextMenu} />
+        )}
+      </LayoutDirectionContext.Provider>
+      </NodeDecorationsContext.Provider>
+    </FlowActionsContext.Provider>
   );
 }
 
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+
+export interface ContextMenuItem {
+  label: string;
+  onSelect: () => void;
+  // Shown greyed out, e.g. "Insert before" on the root
+  disabled?: boolean;
+}
+
+interface ContextMenuProps {
+  // Screen position of the click that opened the menu
+  x: number;
+  y: number;
+  items: ContextMenuItem[];
+  onClose: () => void;
+}
+
+// Small menu at the pointer; closes on Escape, on a click outside it, or once an item is picked
+export default function ContextMenu({ x, y, items, onClose }: ContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const onPointerDown = (event: PointerEvent) => {
+      if (!menuRef.current?.contains(event.target as globalThis.Node)) onClose();
+    };
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('pointerdown', onPointerDown);
+    window.addEventListener('keydown', onKeyDown);
+    return () => {
+      window.removeEventListener('pointerdown', onPointerDown);
+      window.removeEventListener('keydown', onKeyDown);
+    };
+  }, [onClose]);
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      style={{
+        position: 'fixed',
+        zIndex: 20,
+        left: x,
+        top: y,
+        minWidth: '160px',
+        padding: '4px 0',
+        backgroundColor: '#fff',
+        color: '#333',
+        border: '1px solid #ddd',
+        borderRadius: '5px',
+        boxShadow: '0 2px 8px rgba(0, 0, 0, 0.15)',
+        fontSize: '13px',
+      }}
+    >
+      {items.map((item) => (
+        <button
+          key={item.label}
+          role="menuitem"
+          disabled={item.disabled}
+          onClick={() => {
+            item.onSelect();
+            onClose();
+          }}
+          style={{
+            display: 'block',
+            width: '100%',
+            padding: '6px 12px',
+            textAlign: 'left',
+            background: 'none',
+            border: 'none',
+            borderRadius: 0,
+            color: item.disabled ? '#aaa' : 'inherit',
+            cursor: item.disabled ? 'default' : 'pointer',
+          }}
+        >
+          {item.label}
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useState, type CSSProperties, type KeyboardEvent } from "react";
+
+interface LabelInputProps {
+  value: string;
+  // Called with the trimmed label when it changed and isn't empty
+  onCommit: (label: string) => void;
+  // Called once editing ends, whether or not the label changed
+  onDone?: () => void;
+  autoFocus?: boolean;
+  style?: CSSProperties;
+}
+
+// Text input for a node label; commits on blur or Enter, and Escape puts the old label back
+export default function LabelInput({ value, onCommit, onDone, autoFocus, style }: LabelInputProps) {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const finish = (label: string | null) => {
+    setDraft(null);
+    const trimmed = label?.trim();
+    if (trimmed && trimmed !== value) onCommit(trimmed);
+    onDone?.();
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') finish(draft);
+    if (event.key === 'Escape') finish(null);
+  };
+
+  return (
+    <input
+      className="nodrag"
+      aria-label="Label"
+      value={draft ?? value}
+      autoFocus={autoFocus}
+      // Start with the whole label selected so typing replaces it
+      onFocus={(event) => event.target.select()}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={() => finish(draft)}
+      onKeyDown={onKeyDown}
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+      style={{ width: '100%', boxSizing: 'border-box', padding: '3px 6px', ...style }}
+    />
+  );
+}
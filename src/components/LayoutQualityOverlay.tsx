@@ -0,0 +1,117 @@
+import { useMemo } from "react";
+import { useStore, type Edge, type Node } from "reactflow";
+import { DEFAULT_NODE_HEIGHT, DEFAULT_NODE_WIDTH, END_NODE_ID } from "../graph";
+import { getEdgeEndpoints } from "../layout/direction";
+import { checkLayoutQuality, type LayoutViolationKind } from "../layout/quality";
+import type { LayoutDirection, LayoutPoint, PositionedNode } from "../layout/types";
+
+const VIOLATION_COLORS: Record<LayoutViolationKind, string> = {
+  'node-overlap': '#d32f2f',
+  'edge-through-node': '#f57c00',
+  'sibling-misalignment': '#7b1fa2',
+  'parent-off-center': '#1976d2',
+};
+
+interface LayoutQualityOverlayProps {
+  nodes: Node[];
+  edges: Edge[];
+  direction: LayoutDirection;
+  // Bend points of the edges currently drawn routed; the rest are checked as straight lines
+  edgeRoutes: Record<string, LayoutPoint[]>;
+}
+
+/**
+ * Debug overlay that outlines layout-quality violations on the live canvas.
+ * Must be rendered inside <ReactFlow> so it can follow the viewport.
+ */
+export default function LayoutQualityOverlay({ nodes, edges, direction, edgeRoutes }: LayoutQualityOverlayProps) {
+  const [x, y, zoom] = useStore((state) => state.transform);
+
+  const { violations, nodesById } = useMemo(() => {
+    const positioned: PositionedNode[] = nodes.map(node => ({
+      id: node.id,
+      position: node.position,
+      width: node.width || DEFAULT_NODE_WIDTH,
+      height: node.height || DEFAULT_NODE_HEIGHT,
+    }));
+    // Roots and the end node are centred over their whole subtree on purpose
+    const targets = new Set(edges.map(edge => edge.target));
+    const roots = nodes.filter(node => !targets.has(node.id)).map(node => node.id);
+    return {
+      violations: checkLayoutQuality(positioned, edges, {
+        skipCenteringFor: [...roots, END_NODE_ID],
+        direction,
+        edgeRoutes,
+      }),
+      nodesById: new Map(positioned.map(node => [node.id, node])),
+    };
+  }, [nodes, edges, direction, edgeRoutes]);
+
+  const edgesById = useMemo(() => new Map(edges.map(edge => [edge.id, edge])), [edges]);
+
+  return (
+    <>
+      <svg
+        style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', pointerEvents: 'none', zIndex: 5 }}
+      >
+        <g transform={`translate(${x},${y}) scale(${zoom})`}>
+          {violations.map((violation, index) => {
+            const color = VIOLATION_COLORS[violation.kind];
+            const edge = violation.edgeId ? edgesById.get(violation.edgeId) : undefined;
+            const source = edge && nodesById.get(edge.source);
+            const target = edge && nodesById.get(edge.target);
+            const [from, to] = source && target ? getEdgeEndpoints(source, target, direction) : [];
+            const points = edge && from && to ? [from, ...(edgeRoutes[edge.id] || []), to] : [];
+            return (
+              <g key={index}>
+                <title>{violation.message}</title>
+                {violation.nodeIds.map(nodeId => {
+                  const node = nodesById.get(nodeId);
+                  if (!node) return null;
+                  return (
+                    <rect
+                      key={nodeId}
+                      x={node.position.x}
+                      y={node.position.y}
+                      width={node.width}
+                      height={node.height}
+                      fill={violation.kind === 'node-overlap' ? color : 'none'}
+                      fillOpacity={0.15}
+                      stroke={color}
+                      strokeWidth={4}
+                      strokeDasharray={violation.kind === 'node-overlap' ? undefined : '12 6'}
+                    />
+                  );
+                })}
+                {points.length > 0 && (
+                  <polyline
+                    points={points.map(point => `${point.x},${point.y}`).join(' ')}
+                    fill='none'
+                    stroke={color}
+                    strokeWidth={4}
+                  />
+                )}
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+      <div
+        style={{
+          position: 'absolute',
+          zIndex: 5,
+          left: 10,
+          bottom: 10,
+          padding: '6px 10px',
+          fontSize: '12px',
+          backgroundColor: '#fff',
+          color: '#333',
+          border: '1px solid #ddd',
+          borderRadius: '5px',
+        }}
+      >
+        Layout check: {violations.length === 0 ? 'no violations' : `${violations.length} violation(s)`}
+      </div>
+    </>
+  );
+}
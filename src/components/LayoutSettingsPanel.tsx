@@ -0,0 +1,188 @@
+import type { ReactNode } from "react";
+import { EDGE_STYLES, type EdgeStyle } from "../edgePaths";
+import { LAYOUT_DIRECTIONS } from "../layout/direction";
+import { getLayoutStrategy, LAYOUT_STRATEGIES, LAYOUT_STRATEGY_IDS } from "../layout/strategies";
+import type { LayoutDirection, LayoutStrategyId } from "../layout/types";
+import {
+  DEFAULT_LAYOUT_SETTINGS,
+  SPACING_LIMITS,
+  type LayoutSettings,
+  type LayoutSpacing,
+} from "../layoutSettings";
+
+const DIRECTION_LABELS: Record<LayoutDirection, string> = {
+  DOWN: 'Top to bottom',
+  RIGHT: 'Left to right',
+  UP: 'Bottom to top',
+  LEFT: 'Right to left',
+};
+
+const EDGE_STYLE_LABELS: Record<EdgeStyle, string> = {
+  straight: 'Straight',
+  orthogonal: 'Orthogonal',
+  spline: 'Spline',
+};
+
+interface LayoutSettingsPanelProps {
+  settings: LayoutSettings;
+  // Called on every change, so the canvas relays out while a slider is dragged
+  onChange: (settings: LayoutSettings) => void;
+  onClose: () => void;
+}
+
+function SettingRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <label style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '10px', margin: '6px 0' }}>
+      <span>{label}</span>
+      {children}
+    </label>
+  );
+}
+
+function RangeInput({ value, min, max, step, onChange }: {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}) {
+  return (
+    <span style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(event) => onChange(Number(event.target.value))}
+        style={{ width: '110px' }}
+      />
+      <span style={{ width: '32px', textAlign: 'right', fontVariantNumeric: 'tabular-nums' }}>{value}</span>
+    </span>
+  );
+}
+
+// Pick the layout strategy, direction and edge style, and tune spacing and the strategy's own settings
+export default function LayoutSettingsPanel({ settings, onChange, onClose }: LayoutSettingsPanelProps) {
+  const strategy = getLayoutStrategy(settings.strategy);
+  const strategySettings: Record<string, unknown> = { ...settings.strategySettings[settings.strategy] };
+
+  const setSpacing = (key: keyof LayoutSpacing, value: number) => {
+    onChange({ ...settings, spacing: { ...settings.spacing, [key]: value } });
+  };
+  const setStrategySetting = (key: string, value: unknown) => {
+    onChange({
+      ...settings,
+      strategySettings: {
+        ...settings.strategySettings,
+        [settings.strategy]: { ...strategySettings, [key]: value },
+      },
+    });
+  };
+
+  return (
+    <div
+      aria-label="Layout settings"
+      style={{
+        position: 'absolute',
+        zIndex: 10,
+        top: 50,
+        right: 10,
+        width: '300px',
+        maxHeight: 'calc(100vh - 120px)',
+        overflowY: 'auto',
+        backgroundColor: '#fff',
+        color: '#333',
+        border: '1px solid #ddd',
+        borderRadius: '5px',
+        fontSize: '13px',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '8px 12px',
+          fontWeight: 600,
+          borderBottom: '1px solid #ddd',
+        }}
+      >
+        Layout settings
+        <button onClick={onClose} aria-label="Close layout settings">
+          Close
+        </button>
+      </div>
+      <div style={{ padding: '4px 12px 12px' }}>
+        <SettingRow label="Algorithm">
+          <select
+            value={settings.strategy}
+            onChange={(event) => onChange({ ...settings, strategy: event.target.value as LayoutStrategyId })}
+          >
+            {LAYOUT_STRATEGY_IDS.map(id => (
+              <option key={id} value={id}>{LAYOUT_STRATEGIES[id].label}</option>
+            ))}
+          </select>
+        </SettingRow>
+        <p style={{ margin: '0 0 8px', color: '#666' }}>{strategy.description}</p>
+        <SettingRow label="Direction">
+          <select
+            value={settings.direction}
+            onChange={(event) => onChange({ ...settings, direction: event.target.value as LayoutDirection })}
+          >
+            {LAYOUT_DIRECTIONS.map(option => (
+              <option key={option} value={option}>{DIRECTION_LABELS[option]}</option>
+            ))}
+          </select>
+        </SettingRow>
+        <SettingRow label="Edges">
+          <select
+            value={settings.edgeStyle}
+            onChange={(event) => onChange({ ...settings, edgeStyle: event.target.value as EdgeStyle })}
+          >
+            {EDGE_STYLES.map(option => (
+              <option key={option} value={option}>{EDGE_STYLE_LABELS[option]}</option>
+            ))}
+          </select>
+        </SettingRow>
+
+        <div style={{ marginTop: '10px', fontWeight: 600 }}>Spacing</div>
+        {(Object.keys(SPACING_LIMITS) as (keyof LayoutSpacing)[]).map(key => (
+          <SettingRow key={key} label={SPACING_LIMITS[key].label}>
+            <RangeInput {...SPACING_LIMITS[key]} value={settings.spacing[key]} onChange={(value) => setSpacing(key, value)} />
+          </SettingRow>
+        ))}
+
+        {strategy.settingsSchema.length > 0 && (
+          <div style={{ marginTop: '10px', fontWeight: 600 }}>{strategy.label}</div>
+        )}
+        {strategy.settingsSchema.map(field => (
+          <SettingRow key={field.key} label={field.label}>
+            {field.kind === 'number' ? (
+              <RangeInput
+                min={field.min}
+                max={field.max}
+                step={field.step}
+                value={strategySettings[field.key] as number}
+                onChange={(value) => setStrategySetting(field.key, value)}
+              />
+            ) : (
+              <select
+                value={strategySettings[field.key] as string}
+                onChange={(event) => setStrategySetting(field.key, event.target.value)}
+              >
+                {field.choices.map(choice => (
+                  <option key={String(choice)} value={String(choice)}>{String(choice)}</option>
+                ))}
+              </select>
+            )}
+          </SettingRow>
+        ))}
+
+        <button onClick={() => onChange(DEFAULT_LAYOUT_SETTINGS)} style={{ marginTop: '10px' }}>
+          Restore defaults
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,114 @@
+import { useState, type KeyboardEvent } from "react";
+import { getFieldValue, type FlowNodeType, type NodeFieldSchema, type NodeFieldValue } from "../graph";
+
+interface NodeFieldsProps {
+  nodeType: FlowNodeType;
+  // The node's field values; missing ones show the field's default
+  values: Record<string, NodeFieldValue> | undefined;
+  // Shows the values without letting them change, e.g. during a run
+  disabled?: boolean;
+  onChange: (key: string, value: NodeFieldValue) => void;
+}
+
+const inputStyle = {
+  width: '100%',
+  boxSizing: 'border-box' as const,
+  padding: '3px 6px',
+  fontSize: '13px',
+};
+
+// Text and number inputs commit on blur or Enter, so typing makes one undo step rather than one per key
+function DraftInput({ field, value, disabled, onCommit }: {
+  field: Extract<NodeFieldSchema, { kind: 'text' | 'number' }>;
+  value: string | number;
+  disabled?: boolean;
+  onCommit: (value: NodeFieldValue) => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft === null) return;
+    setDraft(null);
+    if (field.kind === 'text') {
+      if (draft !== value) onCommit(draft);
+      return;
+    }
+    const number = Number(draft);
+    // Out-of-range or unparsable numbers are dropped and the input shows the last good value
+    if (draft.trim() === '' || !Number.isFinite(number) || number === value) return;
+    if ((field.min !== undefined && number < field.min) || (field.max !== undefined && number > field.max)) return;
+    onCommit(number);
+  };
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') event.currentTarget.blur();
+    if (event.key === 'Escape') setDraft(null);
+  };
+
+  return (
+    <input
+      className="nodrag"
+      type={field.kind === 'number' ? 'number' : 'text'}
+      value={draft ?? String(value)}
+      placeholder={field.kind === 'text' ? field.placeholder : undefined}
+      min={field.kind === 'number' ? field.min : undefined}
+      max={field.kind === 'number' ? field.max : undefined}
+      step={field.kind === 'number' ? field.step : undefined}
+      disabled={disabled}
+      onChange={(event) => setDraft(event.target.value)}
+      onBlur={commit}
+      onKeyDown={onKeyDown}
+      style={inputStyle}
+    />
+  );
+}
+
+// Form for the fields the node's type declares, built from the type's schema
+export default function NodeFields({ nodeType, values, disabled, onChange }: NodeFieldsProps) {
+  if (nodeType.fields.length === 0) return null;
+
+  return (
+    // Clicks in the form edit it; they mustn't reach the node, which would select it or start editing its label
+    <div
+      onClick={(event) => event.stopPropagation()}
+      onDoubleClick={(event) => event.stopPropagation()}
+      style={{ display: 'grid', gap: '6px', padding: '0 10px 10px', fontSize: '13px', textAlign: 'left' }}
+    >
+      {nodeType.fields.map(field => {
+        const value = getFieldValue(values, field);
+        if (field.kind === 'boolean') {
+          return (
+            <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <input
+                className="nodrag"
+                type="checkbox"
+                checked={value as boolean}
+                disabled={disabled}
+                onChange={(event) => onChange(field.key, event.target.checked)}
+              />
+              {field.label}
+            </label>
+          );
+        }
+        return (
+          <label key={field.key} style={{ display: 'grid', gap: '2px' }}>
+            <span style={{ color: '#555' }}>{field.label}</span>
+            {field.kind === 'select' ? (
+              <select
+                className="nodrag"
+                value={value as string}
+                disabled={disabled}
+                onChange={(event) => onChange(field.key, event.target.value)}
+                style={inputStyle}
+              >
+                {field.options.map(option => (
+                  <option key={option} value={option}>{option}</option>
+                ))}
+              </select>
+            ) : (
+              <DraftInput field={field} value={value as string | number} disabled={disabled} onCommit={(next) => onChange(field.key, next)} />
+            )}
+          </label>
+        );
+      })}
+    </div>
+  );
+}
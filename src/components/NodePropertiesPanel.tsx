@@ -0,0 +1,107 @@
+import type { ReactNode } from "react";
+import type { Node } from "reactflow";
+import {
+  getNodeDepth,
+  getNodeType,
+  getParentIds,
+  getSubtreeIds,
+  type FlowGraph,
+  type FlowNodeData,
+  type NodeFieldValue,
+} from "../graph";
+import LabelInput from "./LabelInput";
+import NodeFields from "./NodeFields";
+
+interface NodePropertiesPanelProps {
+  graph: FlowGraph;
+  node: Node<FlowNodeData>;
+  onSetLabel: (label: string) => void;
+  onSetField: (key: string, value: NodeFieldValue) => void;
+  // Called when a parent is clicked, to select it instead
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+function PropertyRow({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div style={{ display: 'grid', gridTemplateColumns: '90px 1fr', gap: '8px', alignItems: 'baseline', margin: '6px 0' }}>
+      <span style={{ color: '#666' }}>{label}</span>
+      <span style={{ overflowWrap: 'anywhere' }}>{children}</span>
+    </div>
+  );
+}
+
+// Details of the selected node, with its label and its type's fields editable
+export default function NodePropertiesPanel({ graph, node, onSetLabel, onSetField, onSelectNode, onClose }: NodePropertiesPanelProps) {
+  const nodeType = getNodeType(node.type);
+  const parents = getParentIds(node.id, graph.edges)
+    .map(parentId => graph.nodes.find(n => n.id === parentId))
+    .filter((parent): parent is Node<FlowNodeData> => Boolean(parent));
+  const depth = getNodeDepth(node.id, graph.edges);
+  // The node itself and everything below it, not counting the end node main-tree leaves link to
+  const subtreeSize = getSubtreeIds(node.id, graph.edges).length + 1;
+
+  return (
+    <div
+      aria-label="Node properties"
+      style={{
+        position: 'absolute',
+        zIndex: 10,
+        top: 50,
+        left: 10,
+        width: '300px',
+        maxHeight: 'calc(50vh - 60px)',
+        overflowY: 'auto',
+        backgroundColor: '#fff',
+        color: '#333',
+        border: '1px solid #ddd',
+        borderRadius: '5px',
+        fontSize: '13px',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '8px 12px',
+          fontWeight: 600,
+          borderBottom: '1px solid #ddd',
+        }}
+      >
+        {nodeType.label} node
+        <button onClick={onClose} aria-label="Clear the selection">
+          Close
+        </button>
+      </div>
+      <div style={{ padding: '4px 12px' }}>
+        <PropertyRow label="Id"><code>{node.id}</code></PropertyRow>
+        <label style={{ display: 'grid', gridTemplateColumns: '90px 1fr', gap: '8px', alignItems: 'center', margin: '6px 0' }}>
+          <span style={{ color: '#666' }}>Label</span>
+          {/* Keyed by node so a half-typed label doesn't carry over to the next selected node */}
+          <LabelInput key={node.id} value={node.data.label} onCommit={onSetLabel} />
+        </label>
+        <PropertyRow label={parents.length > 1 ? 'Parents' : 'Parent'}>
+          {parents.length === 0 ? '—' : parents.map((parent, index) => (
+            <span key={parent.id}>
+              {index > 0 && ', '}
+              <button
+                onClick={() => onSelectNode(parent.id)}
+                style={{ padding: 0, background: 'none', border: 'none', color: '#1976d2', cursor: 'pointer', textAlign: 'left' }}
+              >
+                {parent.data.label}
+              </button>
+            </span>
+          ))}
+        </PropertyRow>
+        <PropertyRow label="Depth">{depth ?? 'Not reachable from the root'}</PropertyRow>
+        <PropertyRow label="Subtree">{subtreeSize === 1 ? '1 node' : `${subtreeSize} nodes`}</PropertyRow>
+      </div>
+      {nodeType.fields.length > 0 && (
+        <div style={{ borderTop: '1px solid #ddd', paddingTop: '8px' }}>
+          <NodeFields nodeType={nodeType} values={node.data.fields} onChange={onSetField} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import type { GraphIssue } from "../graph";
+
+const SEVERITY_COLORS: Record<GraphIssue['severity'], string> = {
+  error: '#d32f2f',
+  warning: '#f57c00',
+};
+
+interface ProblemsPanelProps {
+  issues: GraphIssue[];
+  // Called when a problem is clicked, to bring its nodes into view
+  onSelectIssue: (issue: GraphIssue) => void;
+}
+
+// List of integrity problems in the graph; hidden while there are none
+export default function ProblemsPanel({ issues, onSelectIssue }: ProblemsPanelProps) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div
+      aria-label="Problems"
+      style={{
+        position: 'absolute',
+        zIndex: 10,
+        right: 10,
+        bottom: 10,
+        width: '320px',
+        maxHeight: '40vh',
+        overflowY: 'auto',
+        backgroundColor: '#fff',
+        color: '#333',
+        border: '1px solid #ddd',
+        borderRadius: '5px',
+        fontSize: '13px',
+      }}
+    >
+      <div style={{ padding: '8px 12px', fontWeight: 600, borderBottom: '1px solid #ddd' }}>
+        Problems ({issues.length})
+      </div>
+      <ul style={{ listStyle: 'none', margin: 0, padding: 0 }}>
+        {issues.map((issue, index) => (
+          <li key={index}>
+            <button
+              onClick={() => onSelectIssue(issue)}
+              disabled={issue.nodeIds.length === 0}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '6px 12px',
+                textAlign: 'left',
+                background: 'none',
+                border: 'none',
+                borderLeft: `4px solid ${SEVERITY_COLORS[issue.severity]}`,
+                borderRadius: 0,
+                color: 'inherit',
+                cursor: issue.nodeIds.length > 0 ? 'pointer' : 'default',
+              }}
+            >
+              {issue.message}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { BaseEdge, Position, type EdgeProps } from "reactflow";
+import { getEdgePath, getEdgePoints, type RoutedEdgeData } from "../edgePaths";
+
+// Edge drawn through the bend points the layout computed for it, in the chosen edge style
+export default function RoutedEdge({
+  sourceX,
+  sourceY,
+  targetX,
+  targetY,
+  sourcePosition,
+  data,
+  style,
+  markerEnd,
+}: EdgeProps<RoutedEdgeData>) {
+  const horizontal = sourcePosition === Position.Left || sourcePosition === Position.Right;
+  const edgeStyle = data?.edgeStyle ?? 'straight';
+  const points = getEdgePoints(
+    { x: sourceX, y: sourceY },
+    { x: targetX, y: targetY },
+    data?.route,
+    edgeStyle,
+    horizontal
+  );
+
+  return <BaseEdge path={getEdgePath(points, edgeStyle, horizontal)} style={style} markerEnd={markerEnd} />;
+}
@@ -0,0 +1,110 @@
+import type { FlowRun } from "../flowRun";
+import { isRunOver, type RunLogEntry, type RunStatus } from "../run";
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  idle: 'Not started',
+  running: 'Running',
+  paused: 'Paused',
+  finished: 'Finished',
+  failed: 'Failed',
+};
+
+const OUTCOME_COLORS: Record<RunLogEntry['outcome'], string> = {
+  done: '#2e7d32',
+  failed: '#d32f2f',
+};
+
+interface RunPanelProps {
+  run: FlowRun;
+  // Called when a log entry is clicked, to bring its node into view
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+// Step, play, pause and reset controls for a run of the flow, with its execution log
+export default function RunPanel({ run, onSelectNode, onClose }: RunPanelProps) {
+  const { state, busy } = run;
+  const over = isRunOver(state);
+
+  return (
+    <div
+      aria-label="Run"
+      style={{
+        position: 'absolute',
+        zIndex: 10,
+        left: 60,
+        bottom: 10,
+        width: '320px',
+        maxHeight: '40vh',
+        display: 'flex',
+        flexDirection: 'column',
+        backgroundColor: '#fff',
+        color: '#333',
+        border: '1px solid #ddd',
+        borderRadius: '5px',
+        fontSize: '13px',
+      }}
+    >
+      <div
+        style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          padding: '8px 12px',
+          fontWeight: 600,
+          borderBottom: '1px solid #ddd',
+        }}
+      >
+        <span>Run: {busy ? 'Executing…' : STATUS_LABELS[state.status]}</span>
+        <button onClick={onClose} aria-label="Leave run mode">
+          Close
+        </button>
+      </div>
+      <div style={{ display: 'flex', gap: '6px', padding: '8px 12px' }}>
+        <button onClick={run.step} disabled={over || busy || state.status === 'running'} aria-label="Execute the next node">
+          Step
+        </button>
+        {state.status === 'running' ? (
+          <button onClick={run.pause} aria-label="Pause the run after the current node">
+            Pause
+          </button>
+        ) : (
+          <button onClick={run.play} disabled={over} aria-label="Run until the flow ends">
+            Play
+          </button>
+        )}
+        <button onClick={run.reset} disabled={state.status === 'idle' && !busy} aria-label="Reset the run">
+          Reset
+        </button>
+      </div>
+      <ol style={{ listStyle: 'none', margin: 0, padding: 0, overflowY: 'auto', borderTop: '1px solid #ddd' }}>
+        {state.log.length === 0 && (
+          <li style={{ padding: '6px 12px', color: '#666' }}>Step or play to run the flow from the root.</li>
+        )}
+        {state.log.map(entry => (
+          <li key={entry.step}>
+            <button
+              onClick={() => onSelectNode(entry.nodeId)}
+              style={{
+                display: 'block',
+                width: '100%',
+                padding: '6px 12px',
+                textAlign: 'left',
+                background: 'none',
+                border: 'none',
+                borderLeft: `4px solid ${OUTCOME_COLORS[entry.outcome]}`,
+                borderRadius: 0,
+                color: 'inherit',
+                cursor: 'pointer',
+              }}
+            >
+              <strong>{entry.step}. {entry.label}</strong>
+              <span style={{ color: '#666' }}> · {Math.round(entry.duration)}ms</span>
+              <div>{entry.message}</div>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
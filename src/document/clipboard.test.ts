@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { createEdge, createFlowNode } from "../graph";
+import { parseFragment, serializeFragment } from "./clipboard";
+import { FlowDocumentError } from "./flowDocument";
+
+describe("clipboard fragments", () => {
+  it("reads copied subtrees back", () => {
+    const fragment = {
+      nodes: [createFlowNode("node-1", { label: "Fetch" }), createFlowNode("node-2", { label: "Store" })],
+      edges: [createEdge("node-1", "node-2")],
+    };
+    const pasted = parseFragment(serializeFragment(fragment, 3));
+    expect(pasted.nodes.map(node => [node.id, node.data.label])).toEqual([["node-1", "Fetch"], ["node-2", "Store"]]);
+    expect(pasted.edges).toEqual(fragment.edges);
+  });
+
+  it.each([
+    ["plain text", "just some words", "The clipboard doesn't hold copied nodes."],
+    ["JSON that isn't a flow", '{"hello": 1}', "Unsupported document version undefined; expected 3."],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseFragment(text)).toThrow(new FlowDocumentError(message));
+  });
+});
@@ -0,0 +1,25 @@
+import type { FlowGraph } from "../graph";
+import { FlowDocumentError, fromFlowDocument, serializeFlow, validateFlowFragment } from "./flowDocument";
+
+/**
+ * Copied subtrees as clipboard text: a flow document holding just the fragment, so it can be
+ * pasted into the editor in another tab. The node counter is the source flow's; pasting
+ * renumbers the nodes anyway.
+ */
+export function serializeFragment(fragment: FlowGraph, nodeCounter: number): string {
+  return serializeFlow({ graph: fragment, nodeCounter });
+}
+
+/**
+ * Read subtrees back from clipboard text.
+ * @throws FlowDocumentError if the text isn't a copied fragment
+ */
+export function parseFragment(text: string): FlowGraph {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new FlowDocumentError("The clipboard doesn't hold copied nodes.");
+  }
+  return fromFlowDocument(validateFlowFragment(value)).graph;
+}
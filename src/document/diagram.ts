@@ -0,0 +1,116 @@
+import type { Edge, Node } from "reactflow";
+import {
+  END_NODE_ID,
+  ROOT_NODE_ID,
+  createEdge,
+  createFlowNode,
+  inferNodeTypes,
+  linkMainTreeLeavesToEnd,
+  type FlowGraph,
+  type FlowNodeData,
+} from "../graph";
+import type { FlowSnapshot } from "../history";
+import { FlowDocumentError } from "./flowDocument";
+
+// Ids a hand-written diagram may use for the end node instead of marking it
+const END_NODE_ALIASES = new Set([END_NODE_ID, "end_node"]);
+
+// Thrown for Mermaid or DOT text the importer can't read; the line is 1-based
+export class DiagramSyntaxError extends FlowDocumentError {
+  readonly line: number;
+
+  constructor(line: number, message: string) {
+    super(`Line ${line}: ${message}`);
+    this.name = "DiagramSyntaxError";
+    this.line = line;
+  }
+}
+
+export interface DiagramNode {
+  label: string;
+  // Marked as the flow's end node, e.g. by its shape or class
+  isEnd: boolean;
+  // Where the node was first mentioned
+  line: number;
+}
+
+// What the Mermaid and DOT parsers read, in the diagram's own ids
+export interface ParsedDiagram {
+  // In order of first mention
+  nodes: Map<string, DiagramNode>;
+  edges: { source: string; target: string; line: number }[];
+}
+
+// Record a node, keeping the first mention's line and any label given so far
+export function mentionNode(
+  diagram: ParsedDiagram,
+  id: string,
+  line: number,
+  details: { label?: string; isEnd?: boolean } = {}
+): void {
+  const node = diagram.nodes.get(id) ?? { label: id, isEnd: false, line };
+  diagram.nodes.set(id, {
+    ...node,
+    label: details.label ?? node.label,
+    isEnd: node.isEnd || Boolean(details.isEnd),
+  });
+}
+
+/**
+ * Turn a parsed diagram into a flow the editor can open.
+ * The node without parents becomes the root (several get a new root above them) and the node
+ * marked as the end node becomes the end node. A diagram without one gets a new end node.
+ * Either way every main-tree leaf is linked to the end node, and the result is laid out on load.
+ * Nodes get the type their place in the flow implies, since diagrams don't record types.
+ * Other nodes are renumbered like nodes added in the editor; their labels are kept.
+ * @throws DiagramSyntaxError if more than one end node is marked
+ * @throws FlowDocumentError if the diagram is empty or has no node to start from
+ */
+export function diagramToFlow(diagram: ParsedDiagram): FlowSnapshot {
+  if (diagram.nodes.size === 0) {
+    throw new FlowDocumentError("The diagram has no nodes.");
+  }
+
+  const marked = [...diagram.nodes].filter(([, node]) => node.isEnd);
+  if (marked.length > 1) {
+    throw new DiagramSyntaxError(marked[1][1].line, `Only one end node can be marked; "${marked[0][0]}" already is.`);
+  }
+  const sinkId = marked[0]?.[0] ?? [...diagram.nodes.keys()].find(id => END_NODE_ALIASES.has(id));
+
+  const targets = new Set(diagram.edges.map(edge => edge.target));
+  const rootIds = [...diagram.nodes.keys()].filter(id => id !== sinkId && !targets.has(id));
+  if (rootIds.length === 0) {
+    throw new FlowDocumentError("The diagram has no node without parents to start the flow from.");
+  }
+
+  const ids = new Map<string, string>();
+  let nodeCounter = 1;
+  diagram.nodes.forEach((_node, id) => {
+    if (id === sinkId) {
+      ids.set(id, END_NODE_ID);
+    } else if (rootIds.length === 1 && id === rootIds[0]) {
+      ids.set(id, ROOT_NODE_ID);
+    } else {
+      ids.set(id, `node-${nodeCounter++}`);
+    }
+  });
+
+  const nodes: Node<FlowNodeData>[] = [...diagram.nodes].map(([id, { label }]) => createFlowNode(ids.get(id)!, { label }));
+  // Repeated links between the same two nodes become one edge
+  const edgesById = new Map<string, Edge>();
+  const addEdge = (source: string, target: string) => {
+    const edge = createEdge(source, target);
+    if (!edgesById.has(edge.id)) edgesById.set(edge.id, edge);
+  };
+  if (rootIds.length > 1) {
+    nodes.unshift(createFlowNode(ROOT_NODE_ID, { label: "Root" }));
+    rootIds.forEach(id => addEdge(ROOT_NODE_ID, ids.get(id)!));
+  }
+  if (sinkId === undefined) {
+    nodes.push(createFlowNode(END_NODE_ID, { label: "End" }));
+  }
+  diagram.edges.forEach(({ source, target }) => addEdge(ids.get(source)!, ids.get(target)!));
+
+  const graph: FlowGraph = inferNodeTypes(linkMainTreeLeavesToEnd({ nodes, edges: [...edgesById.values()] }));
+  return { graph, nodeCounter };
+}
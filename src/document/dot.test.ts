@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { END_NODE_ID, ROOT_NODE_ID, createEdge, createFlowNode, type FlowGraph } from "../graph";
+import { DiagramSyntaxError } from "./diagram";
+import { parseDot, toDot } from "./dot";
+
+function createGraph(): FlowGraph {
+  return {
+    nodes: [
+      createFlowNode(ROOT_NODE_ID, { label: "Start" }, "start"),
+      createFlowNode("node-1", { label: 'Say "hi"' }),
+      createFlowNode(END_NODE_ID, { label: "End" }, "end"),
+      createFlowNode("node-2", { label: "Report" }, "output"),
+    ],
+    edges: [
+      createEdge(ROOT_NODE_ID, "node-1"),
+      createEdge("node-1", END_NODE_ID),
+      createEdge(END_NODE_ID, "node-2"),
+    ],
+  };
+}
+
+function summarise(graph: FlowGraph) {
+  return {
+    nodes: graph.nodes.map(node => [node.id, node.type, node.data.label]),
+    edges: graph.edges.map(edge => edge.id).sort(),
+  };
+}
+
+describe("DOT", () => {
+  it("exports a digraph with the end node drawn as a double circle", () => {
+    expect(toDot(createGraph())).toBe([
+      "digraph flow {",
+      "  rankdir=TB;",
+      "  node [shape=box];",
+      '  "root" [label="Start"];',
+      '  "node-1" [label="Say \\"hi\\""];',
+      '  "end-node" [label="End", shape=doublecircle];',
+      '  "node-2" [label="Report"];',
+      '  "root" -> "node-1";',
+      '  "node-1" -> "end-node";',
+      '  "end-node" -> "node-2";',
+      "}",
+      "",
+    ].join("\n"));
+  });
+
+  it("reads its own export back", () => {
+    const { graph, nodeCounter } = parseDot(toDot(createGraph()));
+    expect(summarise(graph)).toEqual(summarise(createGraph()));
+    expect(nodeCounter).toBe(3);
+  });
+
+  it("reads edge chains, quoted labels, comments and attribute statements", () => {
+    const { graph } = parseDot([
+      "digraph g {",
+      "  // a comment",
+      "  graph [rankdir=LR];",
+      '  a [label="Fetch \\"x\\""];',
+      "  a -> b -> c [color=red];",
+      "  c [shape=doublecircle];",
+      "}",
+    ].join("\n"));
+    expect(summarise(graph)).toEqual({
+      nodes: [
+        [ROOT_NODE_ID, "start", 'Fetch "x"'],
+        ["node-1", "step", "b"],
+        [END_NODE_ID, "end", "c"],
+      ],
+      edges: ["edge-node-1-end-node", "edge-root-node-1"],
+    });
+  });
+
+  it.each([
+    ["undirected graphs", "graph { a -- b }", "Line 1: Undirected graphs are not supported; use a digraph."],
+    ["ports", "digraph { a -> b:port }", "Line 1: Ports are not supported."],
+    ["several graphs", "digraph { a -> b }\ndigraph { c }", "Line 2: Only one graph per file is supported."],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseDot(text)).toThrow(DiagramSyntaxError);
+    expect(() => parseDot(text)).toThrow(message);
+  });
+});
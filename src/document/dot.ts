@@ -0,0 +1,217 @@
+import { END_NODE_ID, type FlowGraph } from "../graph";
+import type { FlowSnapshot } from "../history";
+import { DiagramSyntaxError, diagramToFlow, mentionNode, type ParsedDiagram } from "./diagram";
+
+// Shape the exporter gives the end node, and the importer looks for
+const END_NODE_SHAPE = "doublecircle";
+
+// Bare ids: numerals, or a letter or underscore followed by word characters
+const WORD = /-?(?:\.[0-9]+|[0-9]+(?:\.[0-9]*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*/y;
+
+interface Token {
+  // "id" for identifiers, numbers and quoted strings; the punctuation itself otherwise
+  kind: "id" | "{" | "}" | "[" | "]" | ";" | "," | "=" | "->" | "--";
+  value: string;
+  line: number;
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+// The flow as a Graphviz digraph; the end node is drawn as a double circle
+export function toDot(graph: FlowGraph): string {
+  const lines = ["digraph flow {", "  rankdir=TB;", "  node [shape=box];"];
+  graph.nodes.forEach(node => {
+    const shape = node.id === END_NODE_ID ? `, shape=${END_NODE_SHAPE}` : "";
+    lines.push(`  ${quote(node.id)} [label=${quote(node.data.label)}${shape}];`);
+  });
+  graph.edges.forEach(edge => {
+    lines.push(`  ${quote(edge.source)} -> ${quote(edge.target)};`);
+  });
+  lines.push("}");
+  return lines.join("\n") + "\n";
+}
+
+// Whether only spaces come between the previous line break and the index
+function atLineStart(text: string, index: number): boolean {
+  for (let before = index - 1; before >= 0 && text[before] !== "\n"; before--) {
+    if (text[before] !== " " && text[before] !== "\t") return false;
+  }
+  return true;
+}
+
+// Split DOT text into tokens, dropping comments and keeping the line each token starts on
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let index = 0;
+  while (index < text.length) {
+    const char = text[index];
+    if (char === "\n") {
+      line++;
+      index++;
+    } else if (/\s/.test(char)) {
+      index++;
+    } else if (text.startsWith("//", index) || (char === "#" && atLineStart(text, index))) {
+      // Line comments; # only counts at the start of a line, as a preprocessor line
+      const end = text.indexOf("\n", index);
+      index = end === -1 ? text.length : end;
+    } else if (text.startsWith("/*", index)) {
+      const end = text.indexOf("*/", index + 2);
+      if (end === -1) throw new DiagramSyntaxError(line, "The comment is not closed with */.");
+      line += text.slice(index, end).split("\n").length - 1;
+      index = end + 2;
+    } else if (text.startsWith("->", index) || text.startsWith("--", index)) {
+      const arrow = text.slice(index, index + 2) as "->" | "--";
+      tokens.push({ kind: arrow, value: arrow, line });
+      index += 2;
+    } else if ("{}[];,=".includes(char)) {
+      tokens.push({ kind: char as Token["kind"], value: char, line });
+      index++;
+    } else if (char === '"') {
+      const start = line;
+      let value = "";
+      index++;
+      while (index < text.length && text[index] !== '"') {
+        if (text[index] === "\\" && index + 1 < text.length) {
+          const escaped = text[index + 1];
+          // \n, \l and \r are Graphviz line breaks; other escapes stand for the character itself
+          value += "nlr".includes(escaped) ? "\n" : escaped === "\n" ? "" : escaped;
+          if (escaped === "\n") line++;
+          index += 2;
+          continue;
+        }
+        if (text[index] === "\n") line++;
+        value += text[index++];
+      }
+      if (index >= text.length) throw new DiagramSyntaxError(start, "The string is not closed with a quote.");
+      index++;
+      tokens.push({ kind: "id", value: value.replace(/\n$/, ""), line: start });
+    } else if (char === "<") {
+      throw new DiagramSyntaxError(line, "HTML labels are not supported.");
+    } else if (char === ":") {
+      throw new DiagramSyntaxError(line, "Ports are not supported.");
+    } else {
+      WORD.lastIndex = index;
+      const word = WORD.exec(text);
+      if (!word) throw new DiagramSyntaxError(line, `Unexpected character "${char}".`);
+      tokens.push({ kind: "id", value: word[0], line });
+      index += word[0].length;
+    }
+  }
+  return tokens;
+}
+
+// Read the statements of the one digraph in the tokens
+function parseTokens(tokens: Token[]): ParsedDiagram {
+  const diagram: ParsedDiagram = { nodes: new Map(), edges: [] };
+  let position = 0;
+  const peek = (): Token | undefined => tokens[position];
+  const lastLine = tokens[tokens.length - 1]?.line ?? 1;
+
+  const expect = (kind: Token["kind"], what: string): Token => {
+    const token = tokens[position];
+    if (!token || token.kind !== kind) {
+      const found = token ? `"${token.value}"` : "the end of the file";
+      throw new DiagramSyntaxError(token?.line ?? lastLine, `Expected ${what}, found ${found}.`);
+    }
+    position++;
+    return token;
+  };
+
+  // [key=value, key=value; ...], possibly several lists in a row
+  const readAttributes = (): Map<string, string> => {
+    const attributes = new Map<string, string>();
+    while (peek()?.kind === "[") {
+      position++;
+      while (peek() && peek()!.kind !== "]") {
+        const key = expect("id", "an attribute name").value;
+        expect("=", `"=" after "${key}"`);
+        attributes.set(key, expect("id", `a value for "${key}"`).value);
+        if (peek()?.kind === "," || peek()?.kind === ";") position++;
+      }
+      expect("]", '"]"');
+    }
+    return attributes;
+  };
+
+  const readStatement = () => {
+    if (peek()?.kind === "{") {
+      throw new DiagramSyntaxError(peek()!.line, "Subgraphs are not supported.");
+    }
+    const token = expect("id", "a node id or a statement");
+    const keyword = token.value.toLowerCase();
+    if (keyword === "subgraph") {
+      throw new DiagramSyntaxError(token.line, "Subgraphs are not supported.");
+    }
+    // Defaults for the graph, nodes or edges only style the drawing
+    if (["graph", "node", "edge"].includes(keyword) && peek()?.kind === "[") {
+      readAttributes();
+      return;
+    }
+    // Graph attributes such as rankdir=LR
+    if (peek()?.kind === "=") {
+      position++;
+      expect("id", `a value for "${token.value}"`);
+      return;
+    }
+
+    const ids = [token];
+    while (peek()?.kind === "->" || peek()?.kind === "--") {
+      const arrow = tokens[position++];
+      if (arrow.kind === "--") {
+        throw new DiagramSyntaxError(arrow.line, 'Undirected edges ("--") are not supported; use "->".');
+      }
+      if (peek()?.kind === "{") {
+        throw new DiagramSyntaxError(arrow.line, "Edges to node groups ({ a b }) are not supported.");
+      }
+      ids.push(expect("id", 'a node id after "->"'));
+    }
+
+    const attributes = readAttributes();
+    if (ids.length === 1) {
+      mentionNode(diagram, token.value, token.line, {
+        label: attributes.get("label"),
+        isEnd: attributes.get("shape") === END_NODE_SHAPE,
+      });
+      return;
+    }
+    // Edge attributes, labels included, are dropped: edges have none
+    ids.forEach(id => mentionNode(diagram, id.value, id.line));
+    for (let index = 1; index < ids.length; index++) {
+      diagram.edges.push({ source: ids[index - 1].value, target: ids[index].value, line: ids[index].line });
+    }
+  };
+
+  if (peek()?.kind === "id" && peek()!.value.toLowerCase() === "strict") position++;
+  const keyword = expect("id", '"digraph"');
+  if (keyword.value.toLowerCase() === "graph") {
+    throw new DiagramSyntaxError(keyword.line, "Undirected graphs are not supported; use a digraph.");
+  }
+  if (keyword.value.toLowerCase() !== "digraph") {
+    throw new DiagramSyntaxError(keyword.line, `Expected "digraph", found "${keyword.value}".`);
+  }
+  if (peek()?.kind === "id") position++; // The graph's name
+  expect("{", '"{"');
+  while (peek() && peek()!.kind !== "}") {
+    readStatement();
+    if (peek()?.kind === ";") position++;
+  }
+  expect("}", '"}"');
+  const trailing = peek();
+  if (trailing) {
+    throw new DiagramSyntaxError(trailing.line, "Only one graph per file is supported.");
+  }
+  return diagram;
+}
+
+/**
+ * Read a Graphviz digraph: node statements with label attributes, edge chains (a -> b -> c),
+ * attribute defaults and graph attributes, and comments. Edge attributes and styling are skipped.
+ * The end node is the one drawn as a double circle.
+ * @throws DiagramSyntaxError, with the line number, for anything else such as subgraphs, ports or HTML labels
+ */
+export function parseDot(text: string): FlowSnapshot {
+  return diagramToFlow(parseTokens(tokenize(text)));
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import { END_NODE_ID, ROOT_NODE_ID, createEdge, createFlowNode } from "../graph";
+import type { FlowSnapshot } from "../history";
+import {
+  FLOW_DOCUMENT_VERSION,
+  FlowDocumentError,
+  parseFlowDocument,
+  serializeFlow,
+  toFlowDocument,
+  validateFlowFragment,
+} from "./flowDocument";
+
+function createSnapshot(): FlowSnapshot {
+  const step = createFlowNode("node-1", { label: "Fetch", fields: { action: "GET /orders", timeout: 10 } });
+  return {
+    graph: {
+      nodes: [
+        createFlowNode(ROOT_NODE_ID, { label: "Start" }, "start"),
+        { ...step, position: { x: 40, y: 80 }, data: { ...step.data, pinnedPosition: { x: 40, y: 80 } } },
+        createFlowNode(END_NODE_ID, { label: "End", collapsed: true }, "end"),
+      ],
+      edges: [createEdge(ROOT_NODE_ID, "node-1"), createEdge("node-1", END_NODE_ID)],
+    },
+    nodeCounter: 2,
+  };
+}
+
+function documentText(overrides: Record<string, unknown>): string {
+  return JSON.stringify({ ...toFlowDocument(createSnapshot()), ...overrides });
+}
+
+describe("flow documents", () => {
+  it("round-trips labels, types, fields, collapsed flags and pinned positions", () => {
+    const snapshot = createSnapshot();
+    const loaded = parseFlowDocument(serializeFlow(snapshot));
+    expect(loaded.nodeCounter).toBe(2);
+    expect(loaded.graph.edges).toEqual(snapshot.graph.edges);
+    expect(toFlowDocument(loaded)).toEqual(toFlowDocument(snapshot));
+    const step = loaded.graph.nodes[1];
+    expect(step.type).toBe("step");
+    expect(step.data.fields).toEqual({ action: "GET /orders", timeout: 10, retry: false });
+    expect(step.position).toEqual({ x: 40, y: 80 });
+    expect(loaded.graph.nodes[2].data.collapsed).toBe(true);
+  });
+
+  it("leaves positions and sizes out of the saved document", () => {
+    const saved = toFlowDocument(createSnapshot());
+    expect(saved.version).toBe(FLOW_DOCUMENT_VERSION);
+    saved.nodes.forEach(node => {
+      expect(node).not.toHaveProperty("position");
+      expect(node).not.toHaveProperty("width");
+    });
+  });
+
+  it("infers node types for documents older than version 3", () => {
+    const text = JSON.stringify({
+      version: 2,
+      nodeCounter: 2,
+      nodes: [
+        { id: ROOT_NODE_ID, label: "Start", collapsed: false },
+        { id: "node-1", label: "Step", collapsed: false },
+        { id: END_NODE_ID, label: "End", collapsed: false },
+        { id: "node-2", label: "Report", collapsed: false },
+      ],
+      edges: [
+        createEdge(ROOT_NODE_ID, "node-1"),
+        createEdge("node-1", END_NODE_ID),
+        createEdge(END_NODE_ID, "node-2"),
+      ],
+    });
+    const types = parseFlowDocument(text).graph.nodes.map(node => node.type);
+    expect(types).toEqual(["start", "step", "end", "output"]);
+  });
+
+  it("raises a node counter that lags behind the node ids", () => {
+    expect(parseFlowDocument(documentText({ nodeCounter: 1 })).nodeCounter).toBe(2);
+  });
+
+  it.each([
+    ["text that isn't JSON", "{", "The file is not valid JSON."],
+    ["an unknown version", documentText({ version: 99 }), "Unsupported document version 99; expected 3."],
+    ["a bad node counter", documentText({ nodeCounter: 0 }), "The document has an invalid node counter."],
+    ["no end node", documentText({ nodes: [{ id: ROOT_NODE_ID, label: "Start" }], edges: [] }), 'The document has no "end-node" node.'],
+    ["an edge to a missing node", documentText({ edges: [{ id: "e", source: ROOT_NODE_ID, target: "gone" }] }), 'Edge "e" ends at unknown node "gone".'],
+    ["an unknown node type", documentText({ nodes: [{ id: END_NODE_ID, type: "robot", label: "End" }], edges: [] }), 'Node "end-node" has unknown type "robot".'],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseFlowDocument(text)).toThrow(new FlowDocumentError(message));
+  });
+
+  it("rejects field values that don't fit the node type", () => {
+    const saved = toFlowDocument(createSnapshot());
+    saved.nodes[1].fields = { timeout: "soon" };
+    expect(() => parseFlowDocument(JSON.stringify(saved)))
+      .toThrow('Node "node-1" has an invalid value for "Timeout (s)".');
+  });
+
+  it("accepts fragments without an end node", () => {
+    const fragment = { version: FLOW_DOCUMENT_VERSION, nodeCounter: 1, nodes: [{ id: "node-1", label: "Step" }], edges: [] };
+    expect(validateFlowFragment(fragment).nodes).toHaveLength(1);
+  });
+});
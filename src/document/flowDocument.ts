@@ -0,0 +1,231 @@
+import type { Edge } from "reactflow";
+import {
+  END_NODE_ID,
+  createFlowNode,
+  getMinNodeCounter,
+  getNodeType,
+  inferNodeTypes,
+  isNodeType,
+  isValidFieldValue,
+  type NodeFieldValue,
+} from "../graph";
+import type { FlowSnapshot } from "../history";
+
+export const FLOW_DOCUMENT_VERSION = 3;
+
+// Older versions that still load. Version 1 stored a height per node, which is now
+// measured from the rendered node instead, so it is ignored. Versions 1 and 2 have no
+// node types; nodes get the type their place in the flow implies.
+const READABLE_DOCUMENT_VERSIONS: unknown[] = [1, 2, FLOW_DOCUMENT_VERSION];
+
+export interface FlowDocumentNode {
+  id: string;
+  // Registered node type; missing in documents older than version 3
+  type?: string;
+  label: string;
+  // Values of the type's fields; fields left out take their defaults
+  fields?: Record<string, NodeFieldValue>;
+  collapsed: boolean;
+  // Only present for nodes the user pinned in place
+  pinnedPosition?: { x: number; y: number };
+}
+
+export interface FlowDocumentEdge {
+  id: string;
+  source: string;
+  target: string;
+}
+
+/**
+ * Saved form of a flow. Positions and sizes are left out on purpose: nodes are
+ * measured when they render and laid out again whenever a document is loaded.
+ */
+export interface FlowDocument {
+  version: typeof FLOW_DOCUMENT_VERSION;
+  nodeCounter: number;
+  nodes: FlowDocumentNode[];
+  edges: FlowDocumentEdge[];
+}
+
+// Thrown when a document can't be loaded; the message is meant to be shown to users
+export class FlowDocumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FlowDocumentError";
+  }
+}
+
+export function toFlowDocument(snapshot: FlowSnapshot): FlowDocument {
+  return {
+    version: FLOW_DOCUMENT_VERSION,
+    nodeCounter: snapshot.nodeCounter,
+    nodes: snapshot.graph.nodes.map(node => ({
+      id: node.id,
+      type: getNodeType(node.type).id,
+      label: node.data.label,
+      ...(node.data.fields && Object.keys(node.data.fields).length > 0 && { fields: { ...node.data.fields } }),
+      collapsed: Boolean(node.data.collapsed),
+      ...(node.data.pinnedPosition && {
+        pinnedPosition: { x: node.data.pinnedPosition.x, y: node.data.pinnedPosition.y },
+      }),
+    })),
+    edges: snapshot.graph.edges.map(({ id, source, target }) => ({ id, source, target })),
+  };
+}
+
+export function serializeFlow(snapshot: FlowSnapshot): string {
+  return JSON.stringify(toFlowDocument(snapshot), null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateNode(value: unknown, index: number): FlowDocumentNode {
+  if (!isRecord(value)) {
+    throw new FlowDocumentError(`Node ${index + 1} is not an object.`);
+  }
+  const { id, type, label, fields, collapsed, pinnedPosition } = value;
+  if (typeof id !== "string" || id === "") {
+    throw new FlowDocumentError(`Node ${index + 1} has no id.`);
+  }
+  if (type !== undefined && !isNodeType(type)) {
+    throw new FlowDocumentError(`Node "${id}" has unknown type ${JSON.stringify(type)}.`);
+  }
+  if (typeof label !== "string") {
+    throw new FlowDocumentError(`Node "${id}" has no label.`);
+  }
+  if (collapsed !== undefined && typeof collapsed !== "boolean") {
+    throw new FlowDocumentError(`Node "${id}" has an invalid collapsed flag.`);
+  }
+  const node: FlowDocumentNode = { id, type, label, collapsed: Boolean(collapsed) };
+  if (fields !== undefined) {
+    node.fields = validateFields(fields, id, type);
+  }
+  if (pinnedPosition === undefined) {
+    return node;
+  }
+  if (!isRecord(pinnedPosition) || !Number.isFinite(pinnedPosition.x) || !Number.isFinite(pinnedPosition.y)) {
+    throw new FlowDocumentError(`Node "${id}" has an invalid pinned position.`);
+  }
+  return { ...node, pinnedPosition: { x: pinnedPosition.x as number, y: pinnedPosition.y as number } };
+}
+
+// Field values checked against the node type's schema; values for fields the type doesn't have are dropped
+function validateFields(value: unknown, nodeId: string, typeId: string | undefined): Record<string, NodeFieldValue> {
+  if (!isRecord(value)) {
+    throw new FlowDocumentError(`Node "${nodeId}" has invalid fields.`);
+  }
+  const fields: Record<string, NodeFieldValue> = {};
+  getNodeType(typeId).fields.forEach(field => {
+    if (!(field.key in value)) return;
+    if (!isValidFieldValue(field, value[field.key])) {
+      throw new FlowDocumentError(`Node "${nodeId}" has an invalid value for "${field.label}".`);
+    }
+    fields[field.key] = value[field.key] as NodeFieldValue;
+  });
+  return fields;
+}
+
+function validateEdge(value: unknown, index: number, nodeIds: Set<string>): FlowDocumentEdge {
+  if (!isRecord(value)) {
+    throw new FlowDocumentError(`Edge ${index + 1} is not an object.`);
+  }
+  const { id, source, target } = value;
+  if (typeof id !== "string" || typeof source !== "string" || typeof target !== "string") {
+    throw new FlowDocumentError(`Edge ${index + 1} needs string id, source and target fields.`);
+  }
+  if (!nodeIds.has(source)) {
+    throw new FlowDocumentError(`Edge "${id}" starts at unknown node "${source}".`);
+  }
+  if (!nodeIds.has(target)) {
+    throw new FlowDocumentError(`Edge "${id}" ends at unknown node "${target}".`);
+  }
+  return { id, source, target };
+}
+
+// Shared by whole documents and copied fragments, which have no root or end node
+function validateDocument(value: unknown, requireEndNode: boolean): FlowDocument {
+  if (!isRecord(value)) {
+    throw new FlowDocumentError("The file is not a flow document.");
+  }
+  if (!READABLE_DOCUMENT_VERSIONS.includes(value.version)) {
+    throw new FlowDocumentError(
+      `Unsupported document version ${JSON.stringify(value.version)}; expected ${FLOW_DOCUMENT_VERSION}.`
+    );
+  }
+  if (!Array.isArray(value.nodes) || !Array.isArray(value.edges)) {
+    throw new FlowDocumentError("The document must contain nodes and edges lists.");
+  }
+  if (typeof value.nodeCounter !== "number" || !Number.isInteger(value.nodeCounter) || value.nodeCounter < 1) {
+    throw new FlowDocumentError("The document has an invalid node counter.");
+  }
+
+  const nodes = value.nodes.map(validateNode);
+  const nodeIds = new Set<string>();
+  nodes.forEach(node => {
+    if (nodeIds.has(node.id)) {
+      throw new FlowDocumentError(`Node id "${node.id}" is used more than once.`);
+    }
+    nodeIds.add(node.id);
+  });
+  if (requireEndNode && !nodeIds.has(END_NODE_ID)) {
+    throw new FlowDocumentError(`The document has no "${END_NODE_ID}" node.`);
+  }
+
+  const edges = value.edges.map((edge, index) => validateEdge(edge, index, nodeIds));
+  const edgeIds = new Set<string>();
+  edges.forEach(edge => {
+    if (edgeIds.has(edge.id)) {
+      throw new FlowDocumentError(`Edge id "${edge.id}" is used more than once.`);
+    }
+    edgeIds.add(edge.id);
+  });
+
+  return { version: FLOW_DOCUMENT_VERSION, nodeCounter: value.nodeCounter, nodes, edges };
+}
+
+/**
+ * Check that an untrusted value is a loadable flow document.
+ * @throws FlowDocumentError describing the first problem found
+ */
+export function validateFlowDocument(value: unknown): FlowDocument {
+  return validateDocument(value, true);
+}
+
+/**
+ * Check that an untrusted value is a fragment of a flow, as copied subtrees are: a flow
+ * document that needn't have an end node.
+ * @throws FlowDocumentError describing the first problem found
+ */
+export function validateFlowFragment(value: unknown): FlowDocument {
+  return validateDocument(value, false);
+}
+
+export function fromFlowDocument(flowDocument: FlowDocument): FlowSnapshot {
+  const graph = {
+    nodes: flowDocument.nodes.map(({ id, type, label, fields, collapsed, pinnedPosition }) => {
+      const node = createFlowNode(id, { label, fields, collapsed, pinnedPosition }, type);
+      return pinnedPosition ? { ...node, position: { ...pinnedPosition } } : node;
+    }),
+    edges: flowDocument.edges.map(({ id, source, target }): Edge => ({ id, source, target })),
+  };
+  const typed = flowDocument.nodes.every(node => node.type !== undefined);
+  // A hand-edited counter may lag behind the ids; new nodes must never reuse one
+  const nodeCounter = Math.max(flowDocument.nodeCounter, getMinNodeCounter(graph.nodes));
+  return { graph: typed ? graph : inferNodeTypes(graph), nodeCounter };
+}
+
+/**
+ * Parse and validate a saved flow.
+ * @throws FlowDocumentError if the text is not valid JSON or not a valid document
+ */
+export function parseFlowDocument(text: string): FlowSnapshot {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch {
+    throw new FlowDocumentError("The file is not valid JSON.");
+  }
+  return fromFlowDocument(validateFlowDocument(value));
+}
@@ -0,0 +1,17 @@
+export {
+  FLOW_DOCUMENT_VERSION,
+  FlowDocumentError,
+  fromFlowDocument,
+  parseFlowDocument,
+  serializeFlow,
+  toFlowDocument,
+  validateFlowDocument,
+  validateFlowFragment,
+} from "./flowDocument";
+export type { FlowDocument, FlowDocumentEdge, FlowDocumentNode } from "./flowDocument";
+export { parseFragment, serializeFragment } from "./clipboard";
+export { DiagramSyntaxError } from "./diagram";
+export { parseDot, toDot } from "./dot";
+export { parseMermaid, toMermaid } from "./mermaid";
+export { autosaveFlow, downloadDiagram, downloadFlow, loadAutosavedFlow, readFlowFile } from "./persistence";
+export type { DiagramFormat } from "./persistence";
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { END_NODE_ID, ROOT_NODE_ID, createEdge, createFlowNode, type FlowGraph } from "../graph";
+import { DiagramSyntaxError } from "./diagram";
+import { parseMermaid, toMermaid } from "./mermaid";
+
+function createGraph(): FlowGraph {
+  return {
+    nodes: [
+      createFlowNode(ROOT_NODE_ID, { label: "Start" }, "start"),
+      createFlowNode("node-1", { label: 'Say "hi"' }),
+      createFlowNode("node-2", { label: "Check" }, "decision"),
+      createFlowNode(END_NODE_ID, { label: "End" }, "end"),
+      createFlowNode("node-3", { label: "Report" }, "output"),
+    ],
+    edges: [
+      createEdge(ROOT_NODE_ID, "node-1"),
+      createEdge(ROOT_NODE_ID, "node-2"),
+      createEdge("node-1", END_NODE_ID),
+      createEdge("node-2", END_NODE_ID),
+      createEdge(END_NODE_ID, "node-3"),
+    ],
+  };
+}
+
+function summarise(graph: FlowGraph) {
+  return {
+    nodes: graph.nodes.map(node => [node.id, node.type, node.data.label]),
+    edges: graph.edges.map(edge => edge.id).sort(),
+  };
+}
+
+describe("Mermaid", () => {
+  it("exports a flowchart with the end node marked", () => {
+    expect(toMermaid(createGraph())).toBe([
+      "flowchart TD",
+      '  root["Start"]',
+      '  node_1["Say #quot;hi#quot;"]',
+      '  node_2["Check"]',
+      '  end_node(["End"]):::endNode',
+      '  node_3["Report"]',
+      "  root --> node_1",
+      "  root --> node_2",
+      "  node_1 --> end_node",
+      "  node_2 --> end_node",
+      "  end_node --> node_3",
+      "  classDef endNode stroke-width:3px",
+      "",
+    ].join("\n"));
+  });
+
+  it("reads its own export back", () => {
+    const { graph, nodeCounter } = parseMermaid(toMermaid(createGraph()));
+    const original = summarise(createGraph());
+    // Types are inferred from the structure, so the decision comes back as a step
+    original.nodes[2][1] = "step";
+    expect(summarise(graph)).toEqual(original);
+    expect(nodeCounter).toBe(4);
+  });
+
+  it("reads shapes, link labels, & fan-outs, comments and styling", () => {
+    const { graph } = parseMermaid([
+      "graph LR",
+      "  %% a comment",
+      "  a[Fetch] -->|ok| b{Check} & c",
+      "  b --> d([Done]):::endNode",
+      "  style a fill:#fff",
+    ].join("\n"));
+    expect(summarise(graph)).toEqual({
+      nodes: [
+        [ROOT_NODE_ID, "start", "Fetch"],
+        ["node-1", "step", "Check"],
+        ["node-2", "step", "c"],
+        [END_NODE_ID, "end", "Done"],
+      ],
+      edges: ["edge-node-1-end-node", "edge-node-2-end-node", "edge-root-node-1", "edge-root-node-2"],
+    });
+  });
+
+  it("adds a root above several starting nodes and an end node when none is marked", () => {
+    // Nodes are numbered in order of first mention: a, c, b
+    const { graph } = parseMermaid("flowchart TD\n  a --> c\n  b --> c");
+    expect(summarise(graph).edges).toEqual([
+      "edge-node-1-node-2",
+      "edge-node-2-end-node",
+      "edge-node-3-node-2",
+      "edge-root-node-1",
+      "edge-root-node-3",
+    ]);
+  });
+
+  it.each([
+    ["a missing header", "a --> b", 'Line 1: Expected a "flowchart TD" header, found "a --> b".'],
+    ["subgraphs", "flowchart TD\n  subgraph one\n  a --> b\n  end", 'Line 2: Subgraphs are not supported ("subgraph one").'],
+    ["two end nodes", "flowchart TD\n  a:::endNode\n  b:::endNode", 'Line 3: Only one end node can be marked; "a" already is.'],
+  ])("rejects %s", (_, text, message) => {
+    expect(() => parseMermaid(text)).toThrow(DiagramSyntaxError);
+    expect(() => parseMermaid(text)).toThrow(message);
+  });
+});
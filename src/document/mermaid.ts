@@ -0,0 +1,198 @@
+import { END_NODE_ID, type FlowGraph } from "../graph";
+import type { FlowSnapshot } from "../history";
+import { DiagramSyntaxError, diagramToFlow, mentionNode, type ParsedDiagram } from "./diagram";
+
+// Class the exporter puts on the end node, and the importer looks for
+const END_NODE_CLASS = "endNode";
+
+// Words Mermaid reads as syntax, so they can't be node ids
+const RESERVED_IDS = new Set(["end", "graph", "flowchart", "subgraph", "style", "class", "classDef", "click", "linkStyle"]);
+
+// Opening brackets of the node shapes the importer understands, longest first, with their closers
+const SHAPES: [open: string, close: string][] = [
+  ["(((", ")))"],
+  ["((", "))"],
+  ["([", "])"],
+  ["[[", "]]"],
+  ["[(", ")]"],
+  ["{{", "}}"],
+  ["[/", "/]"],
+  ["[\\", "\\]"],
+  ["[", "]"],
+  ["(", ")"],
+  ["{", "}"],
+  [">", "]"],
+];
+
+const NODE_ID = /^[A-Za-z0-9_]+(?:-[A-Za-z0-9_]+)*/;
+// Arrows with an optional |label|, or with the label written inside the arrow (-- label -->)
+const LINK = /^\s*(?:(?:-{2,}>|={2,}>|-\.+->|-{3,}|={3,}|-\.+-|--[ox])(?:\s*\|[^|]*\|)?|(?:--|==|-\.)\s+[^-=.|>]+?\s+(?:-{2,}>|={2,}>|\.+->|-{3,}|={3,}|\.+-))\s*/;
+// Statements that only style the diagram, which the editor has no use for
+const STYLE_STATEMENT = /^(?:classDef|style|linkStyle|click)\b/;
+
+function escapeLabel(label: string): string {
+  return label.replace(/"/g, "#quot;");
+}
+
+function unescapeLabel(label: string): string {
+  return label.replace(/#quot;/g, '"').replace(/#amp;/g, "&").replace(/#lt;/g, "<").replace(/#gt;/g, ">");
+}
+
+// Mermaid-safe ids for every node: word characters only, unique, and never a keyword
+function toMermaidIds(graph: FlowGraph): Map<string, string> {
+  const ids = new Map<string, string>();
+  const used = new Set<string>();
+  graph.nodes.forEach(node => {
+    const base = node.id.replace(/[^A-Za-z0-9_]/g, "_");
+    let id = RESERVED_IDS.has(base) ? `${base}_` : base;
+    for (let suffix = 2; used.has(id); suffix++) id = `${base}_${suffix}`;
+    used.add(id);
+    ids.set(node.id, id);
+  });
+  return ids;
+}
+
+// The flow as a Mermaid flowchart; the end node is drawn as a stadium and carries the endNode class
+export function toMermaid(graph: FlowGraph): string {
+  const ids = toMermaidIds(graph);
+  const lines = ["flowchart TD"];
+  graph.nodes.forEach(node => {
+    const label = `"${escapeLabel(node.data.label)}"`;
+    lines.push(node.id === END_NODE_ID
+      ? `  ${ids.get(node.id)}([${label}]):::${END_NODE_CLASS}`
+      : `  ${ids.get(node.id)}[${label}]`);
+  });
+  graph.edges.forEach(edge => {
+    const source = ids.get(edge.source);
+    const target = ids.get(edge.target);
+    if (source && target) lines.push(`  ${source} --> ${target}`);
+  });
+  lines.push(`  classDef ${END_NODE_CLASS} stroke-width:3px`);
+  return lines.join("\n") + "\n";
+}
+
+// Split a line into statements at semicolons outside labels
+function splitStatements(line: string): string[] {
+  const statements: string[] = [];
+  let current = "";
+  let quoted = false;
+  let depth = 0;
+  for (const char of line) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && "[({".includes(char)) depth++;
+    if (!quoted && "])}".includes(char)) depth = Math.max(0, depth - 1);
+    if (char === ";" && !quoted && depth === 0) {
+      statements.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  statements.push(current);
+  return statements.map(statement => statement.trim()).filter(statement => statement !== "");
+}
+
+/**
+ * Read a node reference at the start of the text: an id with an optional shape holding its label,
+ * and an optional :::class.
+ * @returns The node and the rest of the text, or null if the text doesn't start with a node id
+ */
+function readNode(text: string, lineNumber: number): { id: string; label?: string; className?: string; rest: string } | null {
+  const idMatch = NODE_ID.exec(text);
+  if (!idMatch) return null;
+  const id = idMatch[0];
+  let rest = text.slice(id.length);
+  let label: string | undefined;
+
+  const shape = SHAPES.find(([open]) => rest.startsWith(open));
+  if (shape) {
+    const [open, close] = shape;
+    const body = rest.slice(open.length);
+    const quotedLabel = /^"([^"]*)"/.exec(body);
+    const end = quotedLabel ? body.indexOf(close, quotedLabel[0].length) : body.indexOf(close);
+    if (end === -1 || (quotedLabel && end !== quotedLabel[0].length)) {
+      throw new DiagramSyntaxError(lineNumber, `The label of node "${id}" is not closed with "${close}".`);
+    }
+    label = unescapeLabel(quotedLabel ? quotedLabel[1] : body.slice(0, end).trim());
+    rest = body.slice(end + close.length);
+  }
+
+  const classMatch = /^:::([A-Za-z0-9_-]+)/.exec(rest);
+  if (classMatch) rest = rest.slice(classMatch[0].length);
+  return { id, label, className: classMatch?.[1], rest };
+}
+
+// Read one or more nodes joined by &, e.g. "a & b"
+function readNodeGroup(text: string, lineNumber: number, diagram: ParsedDiagram): { ids: string[]; rest: string } {
+  const ids: string[] = [];
+  let rest = text;
+  for (;;) {
+    const node = readNode(rest.trimStart(), lineNumber);
+    if (!node) {
+      const found = rest.trim();
+      throw new DiagramSyntaxError(lineNumber, found ? `Expected a node id, found "${found}".` : "Expected a node id.");
+    }
+    mentionNode(diagram, node.id, lineNumber, { label: node.label, isEnd: node.className === END_NODE_CLASS });
+    ids.push(node.id);
+    const joined = /^\s*&\s*/.exec(node.rest);
+    if (!joined) return { ids, rest: node.rest };
+    rest = node.rest.slice(joined[0].length);
+  }
+}
+
+function parseStatement(statement: string, lineNumber: number, diagram: ParsedDiagram): void {
+  if (STYLE_STATEMENT.test(statement)) return;
+  if (/^(?:subgraph|end|direction)\b/.test(statement)) {
+    throw new DiagramSyntaxError(lineNumber, `Subgraphs are not supported ("${statement}").`);
+  }
+  // class a,b endNode
+  const classStatement = /^class\s+([\w,\s-]+?)\s+([A-Za-z0-9_-]+)$/.exec(statement);
+  if (classStatement) {
+    if (classStatement[2] === END_NODE_CLASS) {
+      classStatement[1].split(",").forEach(id => mentionNode(diagram, id.trim(), lineNumber, { isEnd: true }));
+    }
+    return;
+  }
+
+  let { ids: sources, rest } = readNodeGroup(statement, lineNumber, diagram);
+  while (rest.trim() !== "") {
+    const link = LINK.exec(rest);
+    if (!link) {
+      throw new DiagramSyntaxError(lineNumber, `Unsupported Mermaid syntax "${rest.trim()}".`);
+    }
+    const next = readNodeGroup(rest.slice(link[0].length), lineNumber, diagram);
+    sources.forEach(source => next.ids.forEach(target => diagram.edges.push({ source, target, line: lineNumber })));
+    sources = next.ids;
+    rest = next.rest;
+  }
+}
+
+/**
+ * Read a Mermaid flowchart: nodes with labels in any of the common shapes, links of any arrow
+ * style (chained, or fanned out with &), and %% comments. Styling statements are skipped; link
+ * labels are dropped, since edges have none. The end node is the one with the endNode class.
+ * @throws DiagramSyntaxError, with the line number, for anything else such as subgraphs
+ */
+export function parseMermaid(text: string): FlowSnapshot {
+  const diagram: ParsedDiagram = { nodes: new Map(), edges: [] };
+  let headerFound = false;
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+    const line = rawLine.replace(/%%.*$/, "").trim();
+    if (line === "") return;
+    if (!headerFound) {
+      if (!/^(?:flowchart|graph)(?:\s+(?:TD|TB|BT|LR|RL))?\s*;?$/.test(line)) {
+        throw new DiagramSyntaxError(lineNumber, `Expected a "flowchart TD" header, found "${line}".`);
+      }
+      headerFound = true;
+      return;
+    }
+    splitStatements(line).forEach(statement => parseStatement(statement, lineNumber, diagram));
+  });
+
+  if (!headerFound) {
+    throw new DiagramSyntaxError(1, 'Expected a "flowchart TD" header.');
+  }
+  return diagramToFlow(diagram);
+}
@@ -0,0 +1,68 @@
+import { downloadBlob } from "../download";
+import type { FlowSnapshot } from "../history";
+import type { FlowGraph } from "../graph";
+import { parseDot, toDot } from "./dot";
+import { FlowDocumentError, parseFlowDocument, serializeFlow } from "./flowDocument";
+import { parseMermaid, toMermaid } from "./mermaid";
+
+const AUTOSAVE_KEY = "elk-flow:autosave";
+
+export function autosaveFlow(snapshot: FlowSnapshot): void {
+  try {
+    localStorage.setItem(AUTOSAVE_KEY, serializeFlow(snapshot));
+  } catch (error) {
+    // Storage can be full or disabled; losing an autosave shouldn't break editing
+    console.warn('Autosave failed:', error);
+  }
+}
+
+// The last autosaved flow, or null if there is none or it can no longer be loaded
+export function loadAutosavedFlow(): FlowSnapshot | null {
+  let text: string | null = null;
+  try {
+    text = localStorage.getItem(AUTOSAVE_KEY);
+  } catch {
+    return null;
+  }
+  if (!text) return null;
+
+  try {
+    return parseFlowDocument(text);
+  } catch (error) {
+    console.warn('Ignoring autosaved flow:', error instanceof FlowDocumentError ? error.message : error);
+    return null;
+  }
+}
+
+// Offer the flow as a JSON file download
+export function downloadFlow(snapshot: FlowSnapshot, fileName = "flow.json"): void {
+  downloadBlob(new Blob([serializeFlow(snapshot)], { type: "application/json" }), fileName);
+}
+
+// Text diagram formats flows can be exported to and imported from, besides the JSON document
+export type DiagramFormat = "mermaid" | "dot";
+
+const DIAGRAM_FILES: Record<DiagramFormat, { fileName: string; type: string; write: (graph: FlowGraph) => string }> = {
+  mermaid: { fileName: "flow.mmd", type: "text/vnd.mermaid", write: toMermaid },
+  dot: { fileName: "flow.dot", type: "text/vnd.graphviz", write: toDot },
+};
+
+// Offer the flow as a Mermaid or DOT file download
+export function downloadDiagram(graph: FlowGraph, format: DiagramFormat): void {
+  const { fileName, type, write } = DIAGRAM_FILES[format];
+  downloadBlob(new Blob([write(graph)], { type }), fileName);
+}
+
+/**
+ * Read and validate a flow file chosen by the user: a Mermaid (.mmd, .mermaid) or
+ * DOT (.dot, .gv) diagram by its extension, and a JSON flow document otherwise.
+ * @throws FlowDocumentError if the file is not a valid flow document; DiagramSyntaxError,
+ * a FlowDocumentError with a line number, for diagrams the importer can't read
+ */
+export async function readFlowFile(file: File): Promise<FlowSnapshot> {
+  const text = await file.text();
+  const extension = file.name.toLowerCase().split(".").pop();
+  if (extension === "mmd" || extension === "mermaid") return parseMermaid(text);
+  if (extension === "dot" || extension === "gv") return parseDot(text);
+  return parseFlowDocument(text);
+}
@@ -0,0 +1,66 @@
+import type { LayoutPoint } from "./layout/types";
+
+// How edges are drawn through their bend points
+export type EdgeStyle = "straight" | "orthogonal" | "spline";
+
+export const EDGE_STYLES: EdgeStyle[] = ["straight", "orthogonal", "spline"];
+
+// Data the routed edge reads; summary edges carry their own flag alongside
+export interface RoutedEdgeData {
+  // Bend points from the last layout; missing while an end node has moved since
+  route?: LayoutPoint[];
+  edgeStyle: EdgeStyle;
+}
+
+/**
+ * Every point an edge passes through, ends included.
+ * Orthogonal edges without a route get an elbow halfway along, so they never run diagonally.
+ * @param horizontal - Whether the flow is laid out left or right, i.e. depth runs along x
+ */
+export function getEdgePoints(
+  from: LayoutPoint,
+  to: LayoutPoint,
+  route: LayoutPoint[] | undefined,
+  style: EdgeStyle,
+  horizontal: boolean
+): LayoutPoint[] {
+  if (route && route.length > 0) return [from, ...route, to];
+  if (style !== "orthogonal" || from.x === to.x || from.y === to.y) return [from, to];
+  if (horizontal) {
+    const middleX = (from.x + to.x) / 2;
+    return [from, { x: middleX, y: from.y }, { x: middleX, y: to.y }, to];
+  }
+  const middleY = (from.y + to.y) / 2;
+  return [from, { x: from.x, y: middleY }, { x: to.x, y: middleY }, to];
+}
+
+// Smooth curve through the points: it leaves and enters along the depth axis,
+// and bends through each point in between along the line joining its neighbours
+function splinePath(points: LayoutPoint[], horizontal: boolean): string {
+  const last = points.length - 1;
+  const tangent = (index: number): LayoutPoint => {
+    if (index === 0 || index === last) {
+      const [a, b] = index === 0 ? [points[0], points[1]] : [points[last - 1], points[last]];
+      return horizontal ? { x: b.x - a.x, y: 0 } : { x: 0, y: b.y - a.y };
+    }
+    return {
+      x: (points[index + 1].x - points[index - 1].x) / 2,
+      y: (points[index + 1].y - points[index - 1].y) / 2,
+    };
+  };
+
+  let path = `M ${points[0].x} ${points[0].y}`;
+  for (let index = 0; index < last; index++) {
+    const [start, end] = [points[index], points[index + 1]];
+    const [startTangent, endTangent] = [tangent(index), tangent(index + 1)];
+    path += ` C ${start.x + startTangent.x / 3} ${start.y + startTangent.y / 3},`
+      + ` ${end.x - endTangent.x / 3} ${end.y - endTangent.y / 3}, ${end.x} ${end.y}`;
+  }
+  return path;
+}
+
+// SVG path data for an edge through the given points, for the canvas and image export alike
+export function getEdgePath(points: LayoutPoint[], style: EdgeStyle, horizontal: boolean): string {
+  if (style === "spline") return splinePath(points, horizontal);
+  return points.map((point, index) => `${index === 0 ? "M" : "L"} ${point.x} ${point.y}`).join(" ");
+}
@@ -0,0 +1,2 @@
+export { rasterizeSvg, renderFlowSvg } from "./svgExport";
+export type { SvgImage } from "./svgExport";
@@ -0,0 +1,182 @@
+import type { Edge, Node } from "reactflow";
+import { getEdgePath, getEdgePoints, type RoutedEdgeData } from "../edgePaths";
+import { getNodeType, isSummaryEdge } from "../graph";
+import { getEdgeEndpoints, isHorizontalDirection } from "../layout/direction";
+import type { LayoutBounds, LayoutDirection, PositionedNode } from "../layout/types";
+import {
+  EDGE_ARROW_SIZE,
+  EDGE_COLOR,
+  EDGE_THICKNESS,
+  NODE_BORDER_RADIUS,
+  NODE_FONT_SIZE,
+  SUMMARY_EDGE_DASH,
+} from "../theme";
+
+// Blank space around the graph in the exported image
+const EXPORT_PADDING = 50;
+const LABEL_PADDING = 10;
+const LABEL_LINE_HEIGHT = 1.4;
+// Browsers refuse to draw canvases much larger than this in either dimension
+const MAX_CANVAS_SIZE = 16384;
+// Rough average glyph width for the system sans-serif font, used to wrap labels
+const AVERAGE_CHAR_WIDTH = 0.55;
+
+export interface SvgImage {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Split a label into lines that fit the node width, breaking at spaces where possible
+function wrapLabel(label: string, width: number): string[] {
+  const maxChars = Math.max(1, Math.floor((width - 2 * LABEL_PADDING) / (NODE_FONT_SIZE * AVERAGE_CHAR_WIDTH)));
+  const lines: string[] = [];
+  let line = "";
+  label.split(" ").forEach(word => {
+    const candidate = line ? `${line} ${word}` : word;
+    if (candidate.length <= maxChars) {
+      line = candidate;
+      return;
+    }
+    if (line) lines.push(line);
+    // Hard-break words that are longer than a whole line
+    let rest = word;
+    while (rest.length > maxChars) {
+      lines.push(rest.slice(0, maxChars));
+      rest = rest.slice(maxChars);
+    }
+    line = rest;
+  });
+  if (line) lines.push(line);
+  return lines;
+}
+
+function renderNode(node: Node): string {
+  const { position: { x, y }, width, height } = toPositionedNode(node);
+  const { colors } = getNodeType(node.type);
+  // Inset the border like CSS box-sizing: border-box does on the canvas
+  const inset = colors.borderWidth / 2;
+
+  const lines = wrapLabel(String(node.data?.label ?? ""), width);
+  const lineHeight = NODE_FONT_SIZE * LABEL_LINE_HEIGHT;
+  const firstLineY = y + height / 2 - ((lines.length - 1) * lineHeight) / 2;
+  const text = lines
+    .map((line, index) =>
+      `<tspan x="${x + width / 2}" y="${firstLineY + index * lineHeight}">${escapeXml(line)}</tspan>`
+    )
+    .join("");
+
+  return [
+    `<g data-id="${escapeXml(node.id)}">`,
+    `<rect x="${x + inset}" y="${y + inset}" width="${width - 2 * inset}" height="${height - 2 * inset}"`,
+    ` rx="${NODE_BORDER_RADIUS}" fill="${colors.background}" stroke="${colors.border}" stroke-width="${colors.borderWidth}"/>`,
+    `<text text-anchor="middle" dominant-baseline="middle" font-size="${NODE_FONT_SIZE}">${text}</text>`,
+    `</g>`,
+  ].join("");
+}
+
+// Nodes React Flow hasn't measured yet are drawn at their type's default size, as the layout places them
+function toPositionedNode(node: Node): PositionedNode {
+  const { defaultSize } = getNodeType(node.type);
+  return {
+    id: node.id,
+    position: node.position,
+    width: node.width || defaultSize.width,
+    height: node.height || defaultSize.height,
+  };
+}
+
+// Edge between the handles edges use on the canvas for this direction, e.g. bottom centre
+// of the source to top centre of the target when laid out DOWN, through its routed bend points
+function renderEdge(edge: Edge, nodesById: Map<string, Node>, direction: LayoutDirection): string {
+  const source = nodesById.get(edge.source);
+  const target = nodesById.get(edge.target);
+  if (!source || !target) return "";
+
+  const [from, to] = getEdgeEndpoints(toPositionedNode(source), toPositionedNode(target), direction);
+  const data = edge.data as Partial<RoutedEdgeData> | undefined;
+  const edgeStyle = data?.edgeStyle ?? "straight";
+  const horizontal = isHorizontalDirection(direction);
+  const path = getEdgePath(getEdgePoints(from, to, data?.route, edgeStyle, horizontal), edgeStyle, horizontal);
+  // Dashed like on the canvas when the edge stands in for a collapsed subtree
+  const dash = isSummaryEdge(edge) ? ` stroke-dasharray="${SUMMARY_EDGE_DASH}"` : "";
+  return `<path d="${path}" fill="none" stroke="${EDGE_COLOR}" stroke-width="${EDGE_THICKNESS}"${dash} marker-end="url(#arrow)"/>`;
+}
+
+/**
+ * Render the laid-out flow as a standalone SVG document.
+ * The image covers the given layout bounds plus a margin, whatever the canvas zoom or pan.
+ * @param nodes - Laid-out nodes
+ * @param edges - Edges between them, with their routes and edge style as drawn on the canvas
+ * @param bounds - Box enclosing all nodes, as returned by the layout engine
+ * @param direction - Direction the flow was laid out in; decides where edges attach
+ */
+export function renderFlowSvg(
+  nodes: Node[],
+  edges: Edge[],
+  bounds: LayoutBounds,
+  direction: LayoutDirection = "DOWN"
+): SvgImage {
+  const width = Math.ceil(bounds.width + 2 * EXPORT_PADDING);
+  const height = Math.ceil(bounds.height + 2 * EXPORT_PADDING);
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+
+  // Same shape as React Flow's 'arrowclosed' marker
+  const arrowMarker = [
+    `<marker id="arrow" viewBox="-10 -10 20 20" refX="0" refY="0"`,
+    ` markerWidth="${EDGE_ARROW_SIZE}" markerHeight="${EDGE_ARROW_SIZE}" markerUnits="strokeWidth" orient="auto-start-reverse">`,
+    `<polyline points="-5,-4 0,0 -5,4 -5,-4" fill="${EDGE_COLOR}" stroke="${EDGE_COLOR}" stroke-width="1" stroke-linecap="round" stroke-linejoin="round"/>`,
+    `</marker>`,
+  ].join("");
+
+  const svg = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}"`,
+    ` viewBox="${bounds.x - EXPORT_PADDING} ${bounds.y - EXPORT_PADDING} ${width} ${height}"`,
+    ` font-family="system-ui, Avenir, Helvetica, Arial, sans-serif">`,
+    `<defs>${arrowMarker}</defs>`,
+    `<rect x="${bounds.x - EXPORT_PADDING}" y="${bounds.y - EXPORT_PADDING}" width="${width}" height="${height}" fill="#fff"/>`,
+    // Edges first so nodes are drawn over the arrow tails, as on the canvas
+    `<g>${edges.map(edge => renderEdge(edge, nodesById, direction)).join("")}</g>`,
+    `<g>${nodes.map(renderNode).join("")}</g>`,
+    `</svg>`,
+  ].join("");
+
+  return { svg, width, height };
+}
+
+/**
+ * Rasterise an SVG image to PNG in the browser.
+ * @param image - SVG produced by renderFlowSvg
+ * @param requestedScale - Pixel density of the PNG relative to the SVG size; lowered for very large graphs
+ */
+export async function rasterizeSvg(image: SvgImage, requestedScale = 2): Promise<Blob> {
+  const scale = Math.min(requestedScale, MAX_CANVAS_SIZE / image.width, MAX_CANVAS_SIZE / image.height);
+  const url = URL.createObjectURL(new Blob([image.svg], { type: "image/svg+xml" }));
+  try {
+    const img = new Image();
+    img.src = url;
+    await img.decode();
+
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.ceil(image.width * scale);
+    canvas.height = Math.ceil(image.height * scale);
+    const context = canvas.getContext("2d");
+    if (!context) throw new Error("Canvas 2D context is not available");
+    context.scale(scale, scale);
+    context.drawImage(img, 0, 0, image.width, image.height);
+
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))), "image/png");
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
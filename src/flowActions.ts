@@ -0,0 +1,29 @@
+import { createContext, useContext } from "react";
+import type { DeleteMode, NodeFieldValue } from "./graph";
+
+// Graph edits that node components can trigger; implemented by Flow, which owns the graph state
+export interface FlowActions {
+  // False while a run is in progress: nodes hide their edit buttons and every action does nothing
+  editable: boolean;
+  deleteNode: (nodeId: string, mode: DeleteMode) => void;
+  setCollapsed: (nodeId: string, collapsed: boolean) => void;
+  // Pin the node where it currently is, or hand it back to the layout
+  setPinned: (nodeId: string, pinned: boolean) => void;
+  // Let the user pick another node to become an extra parent of this one
+  startAddParent: (nodeId: string) => void;
+  // Add a child of the first type the node allows, as the node's "+" button does
+  addChild: (nodeId: string) => void;
+  setLabel: (nodeId: string, label: string) => void;
+  // Change one of the fields the node's type declares
+  setField: (nodeId: string, key: string, value: NodeFieldValue) => void;
+}
+
+export const FlowActionsContext = createContext<FlowActions | null>(null);
+
+export function useFlowActions(): FlowActions {
+  const actions = useContext(FlowActionsContext);
+  if (!actions) {
+    throw new Error("useFlowActions must be used inside a FlowActionsContext provider");
+  }
+  return actions;
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import type { FlowGraph } from "./graph";
+import { IDLE_RUN, executeRunStep, isRunOver, type RunState } from "./run";
+
+// Pause between nodes while playing, so the highlight can be followed
+const PLAY_STEP_DELAY = 400;
+
+export interface FlowRun {
+  state: RunState;
+  // True while the active node's executor is working
+  busy: boolean;
+  // Execute the active node, starting the run at the root if needed
+  step(): void;
+  // Keep stepping until the run ends or is paused
+  play(): void;
+  // Stop after the node that is running now
+  pause(): void;
+  // Drop the run, including a node still executing
+  reset(): void;
+}
+
+// Steps a run through the flow; the graph may change between steps and each step sees the latest
+export function useFlowRun(graph: FlowGraph): FlowRun {
+  const [state, setState] = useState<RunState>(IDLE_RUN);
+  const [busy, setBusy] = useState(false);
+  const graphRef = useRef(graph);
+  const stateRef = useRef(state);
+  useEffect(() => {
+    graphRef.current = graph;
+    stateRef.current = state;
+  }, [graph, state]);
+  const busyRef = useRef(false);
+  // Bumped by reset and unmount, so a step still in flight from a dropped run is ignored
+  const runIdRef = useRef(0);
+
+  useEffect(() => () => {
+    runIdRef.current++;
+  }, []);
+
+  const runStep = useCallback(async () => {
+    if (busyRef.current || isRunOver(stateRef.current)) return;
+    const runId = runIdRef.current;
+    busyRef.current = true;
+    setBusy(true);
+    const next = await executeRunStep(graphRef.current, stateRef.current);
+    if (runId !== runIdRef.current) return;
+    busyRef.current = false;
+    setBusy(false);
+    // Pause may have been pressed while the node ran
+    setState(current => ({
+      ...next,
+      status: isRunOver(next) ? next.status : current.status === 'running' ? 'running' : 'paused',
+    }));
+  }, []);
+
+  // While playing, take the next step once the previous one has landed
+  useEffect(() => {
+    if (state.status !== 'running' || busy) return;
+    const timeout = setTimeout(() => void runStep(), PLAY_STEP_DELAY);
+    return () => clearTimeout(timeout);
+  }, [state, busy, runStep]);
+
+  const step = useCallback(() => {
+    if (stateRef.current.status !== 'running') void runStep();
+  }, [runStep]);
+
+  const play = useCallback(() => {
+    setState(current => isRunOver(current) ? current : { ...current, status: 'running' });
+  }, []);
+
+  const pause = useCallback(() => {
+    setState(current => current.status === 'running' ? { ...current, status: 'paused' } : current);
+  }, []);
+
+  const reset = useCallback(() => {
+    runIdRef.current++;
+    busyRef.current = false;
+    setBusy(false);
+    setState(IDLE_RUN);
+  }, []);
+
+  return useMemo(() => ({ state, busy, step, play, pause, reset }), [state, busy, step, play, pause, reset]);
+}
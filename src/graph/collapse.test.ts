@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { getHiddenNodeIds, getVisibleGraph, isSummaryEdge } from "./collapse";
+import { setNodeCollapsed } from "./edits";
+import { END_NODE_ID, ROOT_NODE_ID, createEdge } from "./flowGraph";
+import { createTestGraph } from "./testGraph";
+
+describe("getHiddenNodeIds", () => {
+  it("hides everything below a collapsed node but the end node and the output tree", () => {
+    const graph = setNodeCollapsed(createTestGraph(), ROOT_NODE_ID, true);
+    expect([...getHiddenNodeIds(graph)].sort()).toEqual(["a", "b", "c"]);
+  });
+
+  it("keeps merge nodes on show while another parent shows them", () => {
+    const graph = createTestGraph();
+    graph.edges.push(createEdge("b", "c"));
+    expect(getHiddenNodeIds(setNodeCollapsed(graph, "a", true)).size).toBe(0);
+  });
+});
+
+describe("getVisibleGraph", () => {
+  it("returns the graph as it is when nothing is collapsed", () => {
+    const graph = createTestGraph();
+    expect(getVisibleGraph(graph)).toEqual({ graph, hiddenCounts: new Map() });
+  });
+
+  it("replaces the edges leaving a hidden subtree with summary edges", () => {
+    const { graph, hiddenCounts } = getVisibleGraph(setNodeCollapsed(createTestGraph(), "a", true));
+    expect(graph.nodes.map(node => node.id)).not.toContain("c");
+    const summaries = graph.edges.filter(isSummaryEdge);
+    expect(summaries.map(({ id, source, target }) => ({ id, source, target }))).toEqual([
+      { id: "summary-a-end-node", source: "a", target: END_NODE_ID },
+    ]);
+    expect(hiddenCounts).toEqual(new Map([["a", 1]]));
+  });
+
+  it("never summarises the given edges", () => {
+    const full = setNodeCollapsed(createTestGraph(), "a", true);
+    const { graph } = getVisibleGraph(full, new Set(["edge-c-end-node"]));
+    expect(graph.edges.some(isSummaryEdge)).toBe(false);
+  });
+});
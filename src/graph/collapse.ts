@@ -0,0 +1,124 @@
+import type { Edge } from "reactflow";
+import { END_NODE_ID, type FlowGraph } from "./flowGraph";
+
+// The part of the graph that is shown and laid out while some nodes are collapsed
+export interface VisibleGraph {
+  graph: FlowGraph;
+  // Number of nodes hidden under each visible collapsed node
+  hiddenCounts: Map<string, number>;
+}
+
+// Summarised edges stand in for the edges leaving a collapsed subtree
+export interface SummaryEdgeData {
+  summary: true;
+}
+
+export function isSummaryEdge(edge: Edge): boolean {
+  return Boolean((edge.data as SummaryEdgeData | undefined)?.summary);
+}
+
+// Edges grouped by the node they leave or enter, so walks don't rescan every edge per node
+function groupEdgesBy(edges: Edge[], end: 'source' | 'target'): Map<string, Edge[]> {
+  const groups = new Map<string, Edge[]>();
+  edges.forEach(edge => {
+    const group = groups.get(edge[end]);
+    if (group) {
+      group.push(edge);
+    } else {
+      groups.set(edge[end], [edge]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Ids of the nodes hidden by collapsed nodes: everything below a collapsed node,
+ * except merge nodes (and what hangs from them) that also have a parent still on show.
+ */
+export function getHiddenNodeIds(graph: FlowGraph): Set<string> {
+  const collapsedIds = new Set(graph.nodes.filter(node => node.data?.collapsed).map(node => node.id));
+  const outgoing = groupEdgesBy(graph.edges, 'source');
+  const incoming = groupEdgesBy(graph.edges, 'target');
+  const hidden = new Set<string>();
+  collapsedIds.forEach(nodeId => {
+    // Everything below the collapsed node, stopping at the end node so the output tree stays
+    const visited = new Set([nodeId]);
+    const stack = [nodeId];
+    while (stack.length > 0) {
+      (outgoing.get(stack.pop()!) || []).forEach(({ target }) => {
+        if (target === END_NODE_ID || visited.has(target)) return;
+        visited.add(target);
+        hidden.add(target);
+        stack.push(target);
+      });
+    }
+  });
+
+  // A hidden node with a parent that is visible and expanded stays on show
+  let changed = true;
+  while (changed) {
+    changed = false;
+    hidden.forEach(nodeId => {
+      const shownByParent = (incoming.get(nodeId) || [])
+        .some(({ source }) => !hidden.has(source) && !collapsedIds.has(source));
+      if (shownByParent) {
+        hidden.delete(nodeId);
+        changed = true;
+      }
+    });
+  }
+
+  return hidden;
+}
+
+/**
+ * Remove the subtrees of collapsed nodes from the graph. Edges leaving a hidden
+ * subtree, such as the links from its leaves to the end node, are replaced by one
+ * summarised edge from the collapsed node to each node they reached.
+ * The graph itself is untouched, so expanding a node restores its subtree exactly.
+ * @param graph - The full graph
+ * @param unsummarisedEdgeIds - Edges never turned into summaries, e.g. ones that close a cycle
+ */
+export function getVisibleGraph(graph: FlowGraph, unsummarisedEdgeIds: Set<string> = new Set()): VisibleGraph {
+  const hidden = getHiddenNodeIds(graph);
+  const hiddenCounts = new Map<string, number>();
+  if (hidden.size === 0) return { graph, hiddenCounts };
+
+  const nodes = graph.nodes.filter(node => !hidden.has(node.id));
+  const visibleIds = new Set(nodes.map(node => node.id));
+  const edges = graph.edges.filter(edge => !hidden.has(edge.source) && !hidden.has(edge.target));
+  const edgeKeys = new Set(edges.map(edge => `${edge.source}>${edge.target}`));
+  const summaryEdges: Edge[] = [];
+  const outgoing = groupEdgesBy(graph.edges, 'source');
+
+  nodes.filter(node => node.data?.collapsed).forEach(node => {
+    // Walk the hidden nodes below this collapsed node
+    const reached = new Set<string>();
+    const stack = (outgoing.get(node.id) || []).map(edge => edge.target).filter(id => hidden.has(id));
+    stack.forEach(id => reached.add(id));
+    while (stack.length > 0) {
+      const currentId = stack.pop()!;
+      (outgoing.get(currentId) || []).forEach(({ id, target: childId }) => {
+        if (unsummarisedEdgeIds.has(id)) return;
+        if (hidden.has(childId)) {
+          if (reached.has(childId)) return;
+          reached.add(childId);
+          stack.push(childId);
+          return;
+        }
+        const key = `${node.id}>${childId}`;
+        if (childId === node.id || !visibleIds.has(childId) || edgeKeys.has(key)) return;
+        edgeKeys.add(key);
+        summaryEdges.push({
+          id: `summary-${node.id}-${childId}`,
+          source: node.id,
+          target: childId,
+          data: { summary: true } satisfies SummaryEdgeData,
+        });
+      });
+    }
+    if (reached.size > 0) hiddenCounts.set(node.id, reached.size);
+  });
+
+  return { graph: { nodes, edges: [...edges, ...summaryEdges] }, hiddenCounts };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { connectNodes, validateConnection } from "./connections";
+import { END_NODE_ID, ROOT_NODE_ID } from "./flowGraph";
+import { createFlowNode } from "./nodes";
+import { createTestGraph } from "./testGraph";
+
+describe("validateConnection", () => {
+  it("allows a second parent for a main-tree node", () => {
+    expect(validateConnection(createTestGraph(), "b", "c")).toEqual({ valid: true });
+  });
+
+  it.each([
+    ["self-loops", "a", "a", "A node can't connect to itself."],
+    ["links into the root", "a", ROOT_NODE_ID, "Nothing can lead into the root node."],
+    ["links into the end node", "a", END_NODE_ID, "Links into the end node are managed automatically."],
+    ["duplicate links", "a", "c", "These nodes are already connected."],
+    ["links from the main tree into the output tree", "a", "out", "The main tree can't link into the output tree."],
+    ["cycles", "c", "a", "That link would create a cycle."],
+  ])("rejects %s", (_, sourceId, targetId, reason) => {
+    expect(validateConnection(createTestGraph(), sourceId, targetId)).toEqual({ valid: false, reason });
+  });
+
+  it("rejects children the source's type doesn't allow", () => {
+    const graph = createTestGraph();
+    graph.nodes.push(createFlowNode("report", { label: "Report" }, "output"));
+    expect(validateConnection(graph, "a", "report"))
+      .toEqual({ valid: false, reason: "Step nodes can't have Output children." });
+  });
+});
+
+describe("connectNodes", () => {
+  it("hands a leaf's end-node link over to its new child", () => {
+    const edgeIds = connectNodes(createTestGraph(), "b", "c").edges.map(edge => edge.id);
+    expect(edgeIds).toContain("edge-b-c");
+    expect(edgeIds).not.toContain("edge-b-end-node");
+  });
+
+  it("leaves the graph alone when the connection isn't valid", () => {
+    const graph = createTestGraph();
+    expect(connectNodes(graph, "c", "a")).toBe(graph);
+  });
+});
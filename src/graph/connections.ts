@@ -0,0 +1,154 @@
+import {
+  END_NODE_ID,
+  ROOT_NODE_ID,
+  createEdge,
+  getAncestorIds,
+  getParentIds,
+  isDescendantOfOutput,
+  linkMainTreeLeavesToEnd,
+  type FlowGraph,
+} from "./flowGraph";
+import { canDeleteNode } from "./edits";
+import { canHaveChild, getNodeType, getNodeTypes, type FlowNodeType } from "./nodeTypes";
+
+export type ConnectionValidation =
+  | { valid: true }
+  | { valid: false; reason: string };
+
+function getNodeTypeId(graph: FlowGraph, nodeId: string): string | undefined {
+  return graph.nodes.find(node => node.id === nodeId)?.type;
+}
+
+// Whether the parent's type allows a child of the given type
+function validateChildType(parentTypeId: string | undefined, childTypeId: string | undefined): ConnectionValidation {
+  if (canHaveChild(parentTypeId, childTypeId)) return { valid: true };
+  return {
+    valid: false,
+    reason: `${getNodeType(parentTypeId).label} nodes can't have ${getNodeType(childTypeId).label} children.`,
+  };
+}
+
+/**
+ * Check whether a new node of the given type may go between the given parents and children,
+ * e.g. a new child, or a step inserted on an edge. Every link the new node gets must be one its
+ * own type and its neighbours' types allow.
+ */
+export function validateNodePlacement(
+  graph: FlowGraph,
+  typeId: string,
+  parentIds: string[],
+  childIds: string[]
+): ConnectionValidation {
+  if (!getNodeType(typeId).creatable) {
+    return { valid: false, reason: `${getNodeType(typeId).label} nodes can't be added.` };
+  }
+  for (const parentId of parentIds) {
+    const validation = validateChildType(getNodeTypeId(graph, parentId), typeId);
+    if (!validation.valid) return validation;
+  }
+  for (const childId of childIds) {
+    const validation = validateChildType(typeId, getNodeTypeId(graph, childId));
+    if (!validation.valid) return validation;
+  }
+  return { valid: true };
+}
+
+// Types a new node between the given parents and children may have, for menus offering a choice
+export function getAllowedNewNodeTypes(graph: FlowGraph, parentIds: string[], childIds: string[]): FlowNodeType[] {
+  return getNodeTypes().filter(type => validateNodePlacement(graph, type.id, parentIds, childIds).valid);
+}
+
+/**
+ * Check whether a new edge from source to target keeps the flow well formed.
+ * Rejects self-loops, edges into the root or the end node, duplicates,
+ * edges from the main tree into the output tree, children the source's type doesn't allow, and cycles.
+ */
+export function validateConnection(graph: FlowGraph, sourceId: string, targetId: string): ConnectionValidation {
+  if (sourceId === targetId) {
+    return { valid: false, reason: "A node can't connect to itself." };
+  }
+  if (targetId === ROOT_NODE_ID) {
+    return { valid: false, reason: "Nothing can lead into the root node." };
+  }
+  if (targetId === END_NODE_ID) {
+    return { valid: false, reason: "Links into the end node are managed automatically." };
+  }
+  if (graph.edges.some(edge => edge.source === sourceId && edge.target === targetId)) {
+    return { valid: false, reason: "These nodes are already connected." };
+  }
+  const sourceInOutput = sourceId === END_NODE_ID || isDescendantOfOutput(sourceId, graph.edges);
+  if (!sourceInOutput && isDescendantOfOutput(targetId, graph.edges)) {
+    return { valid: false, reason: "The main tree can't link into the output tree." };
+  }
+  if (getAncestorIds(sourceId, graph.edges).has(targetId)) {
+    return { valid: false, reason: "That link would create a cycle." };
+  }
+  return validateChildType(getNodeTypeId(graph, sourceId), getNodeTypeId(graph, targetId));
+}
+
+/**
+ * Add an edge from source to target if validateConnection allows it.
+ * A main-tree source that was a leaf hands its end-node edge over to the target,
+ * so every main-tree leaf still links to the end node.
+ */
+export function connectNodes(graph: FlowGraph, sourceId: string, targetId: string): FlowGraph {
+  if (!validateConnection(graph, sourceId, targetId).valid) return graph;
+  return {
+    ...graph,
+    edges: [
+      ...graph.edges.filter(edge => !(edge.source === sourceId && edge.target === END_NODE_ID)),
+      createEdge(sourceId, targetId),
+    ],
+  };
+}
+
+function isInOutputTree(graph: FlowGraph, nodeId: string): boolean {
+  return nodeId === END_NODE_ID || isDescendantOfOutput(nodeId, graph.edges);
+}
+
+/**
+ * Check whether a node, with its subtree, can move under a new parent.
+ * The root and end node stay put, output-tree nodes only move within the output tree,
+ * main-tree nodes stay in the main tree, nothing can move under its own subtree, and the new
+ * parent's type must allow the node's type as a child.
+ */
+export function validateReparent(graph: FlowGraph, nodeId: string, newParentId: string): ConnectionValidation {
+  if (!canDeleteNode(nodeId)) {
+    return { valid: false, reason: "The root and end nodes can't be moved." };
+  }
+  if (nodeId === newParentId) {
+    return { valid: false, reason: "A node can't be moved onto itself." };
+  }
+  const nodeInOutput = isInOutputTree(graph, nodeId);
+  const parentInOutput = isInOutputTree(graph, newParentId);
+  if (nodeInOutput && !parentInOutput) {
+    return { valid: false, reason: "Output-tree nodes can only move within the output tree." };
+  }
+  if (!nodeInOutput && parentInOutput) {
+    return { valid: false, reason: "Main-tree nodes can't move into the output tree." };
+  }
+  if (getAncestorIds(newParentId, graph.edges).has(nodeId)) {
+    return { valid: false, reason: "A node can't move into its own subtree; that would create a cycle." };
+  }
+  const parentIds = getParentIds(nodeId, graph.edges);
+  if (parentIds.length === 1 && parentIds[0] === newParentId) {
+    return { valid: false, reason: "The node is already there." };
+  }
+  return validateChildType(getNodeTypeId(graph, newParentId), getNodeTypeId(graph, nodeId));
+}
+
+/**
+ * Move a node and its subtree under a new parent, if validateReparent allows it.
+ * The node loses all of its old parents (a merge node becomes a plain child), a main-tree
+ * parent that was a leaf hands its end-node edge over, and old parents left without
+ * children get their end-node edge back.
+ */
+export function reparentNode(graph: FlowGraph, nodeId: string, newParentId: string): FlowGraph {
+  if (!validateReparent(graph, nodeId, newParentId).valid) return graph;
+  const parentInOutput = isInOutputTree(graph, newParentId);
+  const edges = graph.edges.filter(edge =>
+    edge.target !== nodeId &&
+    !(!parentInOutput && edge.source === newParentId && edge.target === END_NODE_ID)
+  );
+  return linkMainTreeLeavesToEnd({ ...graph, edges: [...edges, createEdge(newParentId, nodeId)] });
+}
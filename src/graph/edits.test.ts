@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  addSiblingNode,
+  canDeleteNode,
+  deleteNode,
+  deleteSubtree,
+  insertNodeAfter,
+  insertNodeBefore,
+  insertNodeOnEdge,
+} from "./edits";
+import { END_NODE_ID, ROOT_NODE_ID, type FlowGraph } from "./flowGraph";
+import { createFlowNode } from "./nodes";
+import { createTestGraph, getSortedEdgeIds } from "./testGraph";
+
+function nodeIds(graph: FlowGraph): string[] {
+  return graph.nodes.map(node => node.id).sort();
+}
+
+describe("canDeleteNode", () => {
+  it("protects the root and the end node", () => {
+    expect(canDeleteNode(ROOT_NODE_ID)).toBe(false);
+    expect(canDeleteNode(END_NODE_ID)).toBe(false);
+    expect(canDeleteNode("a")).toBe(true);
+  });
+});
+
+describe("deleteNode", () => {
+  it("reconnects the node's children to its parent", () => {
+    const graph = deleteNode(createTestGraph(), "a");
+    expect(nodeIds(graph)).toEqual(["b", "c", END_NODE_ID, "out", ROOT_NODE_ID].sort());
+    expect(getSortedEdgeIds(graph)).toEqual([
+      "edge-root-b",
+      "edge-root-c",
+      "edge-b-end-node",
+      "edge-c-end-node",
+      "edge-end-node-out",
+    ].sort());
+  });
+
+  it("links a parent left without children back to the end node", () => {
+    const graph = deleteNode(createTestGraph(), "c");
+    expect(getSortedEdgeIds(graph)).toContain("edge-a-end-node");
+    expect(getSortedEdgeIds(graph)).not.toContain("edge-c-end-node");
+  });
+
+  it("doesn't link output-tree parents back to the end node", () => {
+    const graph = deleteNode(createTestGraph(), "out");
+    expect(getSortedEdgeIds(graph))
+      .toEqual(["edge-a-c", "edge-b-end-node", "edge-c-end-node", "edge-root-a", "edge-root-b"]);
+  });
+
+  it("leaves the root and the end node alone", () => {
+    const graph = createTestGraph();
+    expect(deleteNode(graph, ROOT_NODE_ID)).toBe(graph);
+    expect(deleteNode(graph, END_NODE_ID)).toBe(graph);
+  });
+});
+
+describe("deleteSubtree", () => {
+  it("removes the node and everything below it, stopping at the end node", () => {
+    const graph = deleteSubtree(createTestGraph(), "a");
+    expect(nodeIds(graph)).toEqual(["b", END_NODE_ID, "out", ROOT_NODE_ID].sort());
+    expect(getSortedEdgeIds(graph)).toEqual(["edge-b-end-node", "edge-end-node-out", "edge-root-b"]);
+  });
+
+  it("links a parent left without children back to the end node", () => {
+    const graph = deleteSubtree(deleteSubtree(createTestGraph(), "a"), "b");
+    expect(getSortedEdgeIds(graph)).toEqual(["edge-end-node-out", "edge-root-end-node"]);
+  });
+
+  it("leaves the root and the end node alone", () => {
+    const graph = createTestGraph();
+    expect(deleteSubtree(graph, ROOT_NODE_ID)).toBe(graph);
+    expect(deleteSubtree(graph, END_NODE_ID)).toBe(graph);
+  });
+});
+
+describe("inserting nodes", () => {
+  const inserted = createFlowNode("new", { label: "New" });
+
+  it("inserts a node between a node and its parents", () => {
+    const graph = insertNodeBefore(createTestGraph(), "c", inserted);
+    expect(getSortedEdgeIds(graph)).toContain("edge-a-new");
+    expect(getSortedEdgeIds(graph)).toContain("edge-new-c");
+    expect(getSortedEdgeIds(graph)).not.toContain("edge-a-c");
+  });
+
+  it("inserts a node between a node and its children, moving a leaf's end-node link", () => {
+    expect(getSortedEdgeIds(insertNodeAfter(createTestGraph(), "a", inserted))).toEqual([
+      "edge-a-new", "edge-new-c", "edge-b-end-node", "edge-c-end-node", "edge-end-node-out", "edge-root-a", "edge-root-b",
+    ].sort());
+    const afterLeaf = getSortedEdgeIds(insertNodeAfter(createTestGraph(), "b", inserted));
+    expect(afterLeaf).toContain("edge-new-end-node");
+    expect(afterLeaf).not.toContain("edge-b-end-node");
+  });
+
+  it("splices a node into an edge", () => {
+    const graph = insertNodeOnEdge(createTestGraph(), "edge-root-b", inserted);
+    expect(getSortedEdgeIds(graph)).toContain("edge-root-new");
+    expect(getSortedEdgeIds(graph)).toContain("edge-new-b");
+    expect(getSortedEdgeIds(graph)).not.toContain("edge-root-b");
+  });
+
+  it("adds a sibling under the same parents, linked to the end node in the main tree only", () => {
+    expect(getSortedEdgeIds(addSiblingNode(createTestGraph(), "c", inserted))).toEqual(
+      expect.arrayContaining(["edge-a-new", "edge-new-end-node"])
+    );
+    const outputSibling = createFlowNode("report", { label: "Report" }, "output");
+    const graph = addSiblingNode(createTestGraph(), "out", outputSibling);
+    expect(getSortedEdgeIds(graph)).toContain("edge-end-node-report");
+    expect(getSortedEdgeIds(graph)).not.toContain("edge-report-end-node");
+  });
+
+  it("gives the root and the end node no parents or siblings", () => {
+    const graph = createTestGraph();
+    expect(insertNodeBefore(graph, ROOT_NODE_ID, inserted)).toBe(graph);
+    expect(addSiblingNode(graph, END_NODE_ID, inserted)).toBe(graph);
+  });
+});
@@ -0,0 +1,193 @@
+import type { Node, XYPosition } from "reactflow";
+import {
+  END_NODE_ID,
+  ROOT_NODE_ID,
+  createEdge,
+  getChildIds,
+  getParentIds,
+  getSubtreeIds,
+  isDescendantOfOutput,
+  linkMainTreeLeavesToEnd,
+  type FlowGraph,
+} from "./flowGraph";
+import type { NodeFieldValue } from "./nodeTypes";
+
+export type DeleteMode = "node" | "subtree";
+
+// The end node anchors the output tree and the root anchors the main tree, so neither can go
+export function canDeleteNode(nodeId: string): boolean {
+  return nodeId !== END_NODE_ID && nodeId !== ROOT_NODE_ID;
+}
+
+/**
+ * Splice a node out of the graph, reconnecting its children to its parent.
+ * A main-tree parent that is left without children gets its edge to the end node back.
+ */
+export function deleteNode(graph: FlowGraph, nodeId: string): FlowGraph {
+  if (!canDeleteNode(nodeId)) return graph;
+
+  const parentIds = getParentIds(nodeId, graph.edges);
+  // A main-tree leaf's only child is the end node; that link is restored below if still needed
+  const childIds = getChildIds(nodeId, graph.edges).filter(id => id !== END_NODE_ID);
+
+  const remainingEdges = graph.edges.filter(edge => edge.source !== nodeId && edge.target !== nodeId);
+  const existingEdgeIds = new Set(remainingEdges.map(edge => edge.id));
+  const rewiredEdges = parentIds
+    .flatMap(parentId => childIds.map(childId => createEdge(parentId, childId)))
+    .filter(edge => !existingEdgeIds.has(edge.id));
+
+  return linkMainTreeLeavesToEnd({
+    nodes: graph.nodes.filter(node => node.id !== nodeId),
+    edges: [...remainingEdges, ...rewiredEdges],
+  });
+}
+
+/**
+ * Remove a node together with all of its descendants.
+ * Main-tree subtrees stop at the end node, so the output tree is never touched.
+ */
+export function deleteSubtree(graph: FlowGraph, nodeId: string): FlowGraph {
+  if (!canDeleteNode(nodeId)) return graph;
+
+  const removedIds = new Set([nodeId, ...getSubtreeIds(nodeId, graph.edges)]);
+
+  return linkMainTreeLeavesToEnd({
+    nodes: graph.nodes.filter(node => !removedIds.has(node.id)),
+    edges: graph.edges.filter(edge => !removedIds.has(edge.source) && !removedIds.has(edge.target)),
+  });
+}
+
+/**
+ * Append a new node as a child of the given parent.
+ * In the main tree the parent's edge to the end node moves to the new node, which becomes a leaf;
+ * under the end node the child is simply added, with no connection back to the end node.
+ */
+export function addChildNode(graph: FlowGraph, parentId: string, newNode: Node): FlowGraph {
+  const isOutputTreeParent = parentId === END_NODE_ID || isDescendantOfOutput(parentId, graph.edges);
+
+  const edges = isOutputTreeParent
+    ? [...graph.edges, createEdge(parentId, newNode.id)]
+    : [
+        ...graph.edges.filter(edge => !(edge.source === parentId && edge.target === END_NODE_ID)),
+        createEdge(parentId, newNode.id),
+        createEdge(newNode.id, END_NODE_ID),
+      ];
+
+  return { nodes: [...graph.nodes, newNode], edges };
+}
+
+/**
+ * Insert a new node between a node and all of its parents.
+ * The root and the end node have no parents to insert between, so they are left alone.
+ */
+export function insertNodeBefore(graph: FlowGraph, nodeId: string, newNode: Node): FlowGraph {
+  if (!canDeleteNode(nodeId)) return graph;
+  return {
+    nodes: [...graph.nodes, newNode],
+    edges: [
+      ...graph.edges.filter(edge => edge.target !== nodeId),
+      ...getParentIds(nodeId, graph.edges).map(parentId => createEdge(parentId, newNode.id)),
+      createEdge(newNode.id, nodeId),
+    ],
+  };
+}
+
+/**
+ * Insert a new node between a node and all of its children.
+ * A main-tree leaf hands its end-node edge to the new node, which becomes the leaf;
+ * an output-tree leaf simply gains the new node as its child.
+ */
+export function insertNodeAfter(graph: FlowGraph, nodeId: string, newNode: Node): FlowGraph {
+  if (!graph.nodes.some(node => node.id === nodeId)) return graph;
+  return linkMainTreeLeavesToEnd({
+    nodes: [...graph.nodes, newNode],
+    edges: [
+      ...graph.edges.filter(edge => edge.source !== nodeId),
+      createEdge(nodeId, newNode.id),
+      ...getChildIds(nodeId, graph.edges).map(childId => createEdge(newNode.id, childId)),
+    ],
+  });
+}
+
+// Splice a new node into an existing edge: source -> new node -> target
+export function insertNodeOnEdge(graph: FlowGraph, edgeId: string, newNode: Node): FlowGraph {
+  const edge = graph.edges.find(e => e.id === edgeId);
+  if (!edge) return graph;
+  return {
+    nodes: [...graph.nodes, newNode],
+    edges: [
+      ...graph.edges.filter(e => e.id !== edgeId),
+      createEdge(edge.source, newNode.id),
+      createEdge(newNode.id, edge.target),
+    ],
+  };
+}
+
+/**
+ * Add a new leaf next to a node, under the same parents.
+ * In the main tree the new leaf links to the end node; in the output tree it doesn't.
+ * The root and the end node have no parents, so they get no siblings.
+ */
+export function addSiblingNode(graph: FlowGraph, nodeId: string, newNode: Node): FlowGraph {
+  if (!canDeleteNode(nodeId)) return graph;
+  return linkMainTreeLeavesToEnd({
+    nodes: [...graph.nodes, newNode],
+    edges: [
+      ...graph.edges,
+      ...getParentIds(nodeId, graph.edges).map(parentId => createEdge(parentId, newNode.id)),
+    ],
+  });
+}
+
+// Collapse a node, which hides its subtree and shrinks it to its header, or expand it again.
+// Only the flag in data changes; see getVisibleGraph for what is hidden.
+export function setNodeCollapsed(graph: FlowGraph, nodeId: string, collapsed: boolean): FlowGraph {
+  if (!graph.nodes.some(n => n.id === nodeId)) return graph;
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => n.id === nodeId ? { ...n, data: { ...n.data, collapsed } } : n),
+  };
+}
+
+// Pin a node at the given position so layout leaves it there, or unpin it with null
+export function setNodePinned(graph: FlowGraph, nodeId: string, position: XYPosition | null): FlowGraph {
+  if (!graph.nodes.some(n => n.id === nodeId)) return graph;
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => {
+      if (n.id !== nodeId) return n;
+      return position
+        ? { ...n, position, data: { ...n.data, pinnedPosition: { ...position } } }
+        : { ...n, data: { ...n.data, pinnedPosition: undefined } };
+    }),
+  };
+}
+
+// Rename a node; labels are display text only, so any non-empty label is fine
+export function setNodeLabel(graph: FlowGraph, nodeId: string, label: string): FlowGraph {
+  if (label.trim() === "" || !graph.nodes.some(n => n.id === nodeId)) return graph;
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => n.id === nodeId ? { ...n, data: { ...n.data, label } } : n),
+  };
+}
+
+// Set one of the node's data fields, e.g. from the form inside the node
+export function setNodeField(graph: FlowGraph, nodeId: string, key: string, value: NodeFieldValue): FlowGraph {
+  if (!graph.nodes.some(n => n.id === nodeId)) return graph;
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => n.id === nodeId ? { ...n, data: { ...n.data, fields: { ...n.data?.fields, [key]: value } } } : n),
+  };
+}
+
+// Let layout place every node again
+export function unpinAllNodes(graph: FlowGraph): FlowGraph {
+  return {
+    ...graph,
+    nodes: graph.nodes.map(n => {
+      if (!n.data?.pinnedPosition) return n;
+      return { ...n, data: { ...n.data, pinnedPosition: undefined } };
+    }),
+  };
+}
@@ -0,0 +1,110 @@
+import type { Edge, Node } from "reactflow";
+
+export const ROOT_NODE_ID = "root";
+export const END_NODE_ID = "end-node";
+
+// The editable graph: React Flow nodes and edges kept together so edits can update both at once
+export interface FlowGraph {
+  nodes: Node[];
+  edges: Edge[];
+}
+
+export function createEdge(source: string, target: string): Edge {
+  return {
+    id: `edge-${source}-${target}`,
+    source,
+    target,
+  };
+}
+
+export function getChildIds(nodeId: string, edges: Edge[]): string[] {
+  return edges.filter(edge => edge.source === nodeId).map(edge => edge.target);
+}
+
+export function getParentIds(nodeId: string, edges: Edge[]): string[] {
+  return edges.filter(edge => edge.target === nodeId).map(edge => edge.source);
+}
+
+// Ids of every node above the given node, following all parents of merge nodes
+export function getAncestorIds(nodeId: string, edges: Edge[]): Set<string> {
+  const ancestors = new Set<string>();
+  const stack = [nodeId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    getParentIds(currentId, edges).forEach(parentId => {
+      if (ancestors.has(parentId)) return;
+      ancestors.add(parentId);
+      stack.push(parentId);
+    });
+  }
+
+  return ancestors;
+}
+
+// Check if a node is a descendant of the output node
+export function isDescendantOfOutput(nodeId: string, edges: Edge[]): boolean {
+  return getAncestorIds(nodeId, edges).has(END_NODE_ID);
+}
+
+// Ids of every node below the given node, stopping at the end node so a main-tree
+// subtree never picks up the output tree
+export function getSubtreeIds(nodeId: string, edges: Edge[]): string[] {
+  const result: string[] = [];
+  const visited = new Set<string>([nodeId]);
+  const stack = [nodeId];
+
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    getChildIds(currentId, edges).forEach(childId => {
+      if (childId === END_NODE_ID || visited.has(childId)) return;
+      visited.add(childId);
+      result.push(childId);
+      stack.push(childId);
+    });
+  }
+
+  return result;
+}
+
+// Number of edges on the shortest path from the root to the node, or null if the root can't reach it
+export function getNodeDepth(nodeId: string, edges: Edge[]): number | null {
+  const depths = new Map<string, number>([[ROOT_NODE_ID, 0]]);
+  const queue = [ROOT_NODE_ID];
+
+  for (let index = 0; index < queue.length; index++) {
+    const currentId = queue[index];
+    if (currentId === nodeId) return depths.get(currentId)!;
+    getChildIds(currentId, edges).forEach(childId => {
+      if (depths.has(childId)) return;
+      depths.set(childId, depths.get(currentId)! + 1);
+      queue.push(childId);
+    });
+  }
+
+  return null;
+}
+
+// Ids of the end node's descendants (the output tree)
+export function getOutputTreeIds(edges: Edge[]): Set<string> {
+  return new Set(getSubtreeIds(END_NODE_ID, edges));
+}
+
+/**
+ * Restore the main-tree rule that every leaf links to the end node.
+ * Output-tree nodes are left alone: they never link back to the end node.
+ */
+export function linkMainTreeLeavesToEnd(graph: FlowGraph): FlowGraph {
+  const outputTreeIds = getOutputTreeIds(graph.edges);
+  const sources = new Set(graph.edges.map(edge => edge.source));
+  const missingEdges = graph.nodes
+    .filter(node =>
+      node.id !== END_NODE_ID &&
+      !outputTreeIds.has(node.id) &&
+      !sources.has(node.id)
+    )
+    .map(node => createEdge(node.id, END_NODE_ID));
+
+  if (missingEdges.length === 0) return graph;
+  return { ...graph, edges: [...graph.edges, ...missingEdges] };
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { setNodeField } from "./edits";
+import { END_NODE_ID, ROOT_NODE_ID } from "./flowGraph";
+import {
+  deleteSubtrees,
+  duplicateSubtrees,
+  getFragmentRootIds,
+  getSubtreeFragment,
+  pasteFragment,
+  validatePaste,
+} from "./fragments";
+import { checkGraphIntegrity } from "./integrity";
+import { createFlowNode } from "./nodes";
+import { createTestGraph, getSortedEdgeIds } from "./testGraph";
+
+describe("getSubtreeFragment", () => {
+  it("copies the subtree without its links in from outside or down to the end node", () => {
+    const fragment = getSubtreeFragment(createTestGraph(), ["a"]);
+    expect(fragment.nodes.map(node => node.id)).toEqual(["a", "c"]);
+    expect(getSortedEdgeIds(fragment)).toEqual(["edge-a-c"]);
+    expect(getFragmentRootIds(fragment)).toEqual(["a"]);
+  });
+
+  it("never includes the root or the end node", () => {
+    expect(getSubtreeFragment(createTestGraph(), [ROOT_NODE_ID, END_NODE_ID]).nodes).toEqual([]);
+  });
+
+  it("includes a node selected along with its ancestor only once", () => {
+    const fragment = getSubtreeFragment(createTestGraph(), ["a", "c"]);
+    expect(fragment.nodes.map(node => node.id)).toEqual(["a", "c"]);
+    expect(getFragmentRootIds(fragment)).toEqual(["a"]);
+  });
+});
+
+describe("validatePaste", () => {
+  const fragment = getSubtreeFragment(createTestGraph(), ["a"]);
+
+  it("allows pasting steps into the main tree", () => {
+    expect(validatePaste(createTestGraph(), fragment, "b")).toEqual({ valid: true });
+  });
+
+  it.each([
+    ["a missing parent", "gone", "The node to paste under no longer exists."],
+    ["a parent whose type doesn't allow the fragment", "out", "Output nodes can't have Step children."],
+  ])("rejects %s", (_, parentId, reason) => {
+    expect(validatePaste(createTestGraph(), fragment, parentId)).toEqual({ valid: false, reason });
+  });
+
+  it("rejects empty fragments and node types users can't add", () => {
+    expect(validatePaste(createTestGraph(), { nodes: [], edges: [] }, "b"))
+      .toEqual({ valid: false, reason: "There is nothing to paste." });
+    const start = { nodes: [createFlowNode("s", { label: "S" }, "start")], edges: [] };
+    expect(validatePaste(createTestGraph(), start, "b"))
+      .toEqual({ valid: false, reason: "Start nodes can't be pasted." });
+  });
+});
+
+describe("pasteFragment", () => {
+  it("adds renumbered copies under the parent and moves its end-node link to the copied leaves", () => {
+    const source = setNodeField(createTestGraph(), "a", "timeout", 5);
+    const graph = pasteFragment(createTestGraph(), getSubtreeFragment(source, ["a"]), "b", 7);
+    const copies = graph.nodes.slice(-2);
+    expect(copies.map(node => [node.id, node.data.label])).toEqual([["node-7", "A"], ["node-8", "C"]]);
+    expect(copies[0].data.fields.timeout).toBe(5);
+    expect(getSortedEdgeIds(graph))
+      .toEqual(expect.arrayContaining(["edge-b-node-7", "edge-node-7-node-8", "edge-node-8-end-node"]));
+    expect(getSortedEdgeIds(graph)).not.toContain("edge-b-end-node");
+    expect(checkGraphIntegrity(graph).issues).toEqual([]);
+  });
+
+  it("doesn't copy pinned positions", () => {
+    const graph = createTestGraph();
+    graph.nodes[1] = { ...graph.nodes[1], data: { ...graph.nodes[1].data, pinnedPosition: { x: 1, y: 2 } } };
+    const pasted = pasteFragment(graph, getSubtreeFragment(graph, ["a"]), "b", 7);
+    expect(pasted.nodes.find(node => node.id === "node-7")!.data.pinnedPosition).toBeUndefined();
+  });
+});
+
+describe("duplicateSubtrees", () => {
+  it("copies subtrees next to themselves, under the same parents", () => {
+    const graph = duplicateSubtrees(createTestGraph(), ["a"], 7);
+    expect(getSortedEdgeIds(graph))
+      .toEqual(expect.arrayContaining(["edge-root-node-7", "edge-node-7-node-8", "edge-node-8-end-node"]));
+    expect(checkGraphIntegrity(graph).issues).toEqual([]);
+  });
+});
+
+describe("deleteSubtrees", () => {
+  it("removes every selected subtree and relinks parents left as leaves", () => {
+    const graph = deleteSubtrees(createTestGraph(), ["a", "b", "c"]);
+    expect(graph.nodes.map(node => node.id)).toEqual([ROOT_NODE_ID, END_NODE_ID, "out"]);
+    expect(getSortedEdgeIds(graph)).toEqual(["edge-end-node-out", "edge-root-end-node"]);
+  });
+});
@@ -0,0 +1,118 @@
+import type { Edge, Node } from "reactflow";
+import type { ConnectionValidation } from "./connections";
+import { canDeleteNode, deleteSubtree } from "./edits";
+import {
+  END_NODE_ID,
+  createEdge,
+  getParentIds,
+  getSubtreeIds,
+  isDescendantOfOutput,
+  linkMainTreeLeavesToEnd,
+  type FlowGraph,
+} from "./flowGraph";
+import { createFlowNode } from "./nodes";
+import { canHaveChild, getNodeType } from "./nodeTypes";
+
+/**
+ * The subtrees of the given nodes, as copied to the clipboard: the nodes, everything below them
+ * and the edges among those. Edges into the fragment from outside and edges to the end node are
+ * left out; the root and the end node are never part of a fragment.
+ */
+export function getSubtreeFragment(graph: FlowGraph, nodeIds: string[]): FlowGraph {
+  const fragmentIds = new Set<string>();
+  nodeIds.filter(canDeleteNode).forEach(nodeId => {
+    if (fragmentIds.has(nodeId) || !graph.nodes.some(node => node.id === nodeId)) return;
+    fragmentIds.add(nodeId);
+    getSubtreeIds(nodeId, graph.edges).forEach(id => fragmentIds.add(id));
+  });
+  return {
+    nodes: graph.nodes.filter(node => fragmentIds.has(node.id)),
+    edges: graph.edges.filter(edge => fragmentIds.has(edge.source) && fragmentIds.has(edge.target)),
+  };
+}
+
+// Nodes of the fragment with no parent inside it: the tops of the copied subtrees
+export function getFragmentRootIds(fragment: FlowGraph): string[] {
+  const targets = new Set(fragment.edges.map(edge => edge.target));
+  return fragment.nodes.filter(node => !targets.has(node.id)).map(node => node.id);
+}
+
+/**
+ * Check whether a fragment can be pasted under the given node: it must have nodes, only of
+ * types users can add, and the parent's type must allow each of its tops as a child.
+ */
+export function validatePaste(graph: FlowGraph, fragment: FlowGraph, parentId: string): ConnectionValidation {
+  const parent = graph.nodes.find(node => node.id === parentId);
+  if (!parent) {
+    return { valid: false, reason: "The node to paste under no longer exists." };
+  }
+  const rootIds = getFragmentRootIds(fragment);
+  if (rootIds.length === 0) {
+    return { valid: false, reason: "There is nothing to paste." };
+  }
+  const fixed = fragment.nodes.find(node => !getNodeType(node.type).creatable);
+  if (fixed) {
+    return { valid: false, reason: `${getNodeType(fixed.type).label} nodes can't be pasted.` };
+  }
+  for (const rootId of rootIds) {
+    const root = fragment.nodes.find(node => node.id === rootId)!;
+    if (!canHaveChild(parent.type, root.type)) {
+      return {
+        valid: false,
+        reason: `${getNodeType(parent.type).label} nodes can't have ${getNodeType(root.type).label} children.`,
+      };
+    }
+  }
+  return { valid: true };
+}
+
+/**
+ * Add a copy of the fragment to the graph, hanging each of its tops under the parents given for it.
+ * Copies are numbered node-<firstNodeNumber>, node-<firstNodeNumber + 1>, ... in fragment order,
+ * so the caller's node counter moves on by the fragment's size. Pinned positions aren't copied.
+ * In the main tree the parents' links to the end node go and the copied leaves link to it instead;
+ * copies in the output tree are left without links back to the end node.
+ */
+function addFragmentCopy(
+  graph: FlowGraph,
+  fragment: FlowGraph,
+  firstNodeNumber: number,
+  getParentIdsOf: (rootId: string) => string[]
+): FlowGraph {
+  const ids = new Map(fragment.nodes.map((node, index) => [node.id, `node-${firstNodeNumber + index}`]));
+  const nodes: Node[] = fragment.nodes.map(({ id, type, data }) => createFlowNode(
+    ids.get(id)!,
+    { label: data.label, fields: data.fields, collapsed: data.collapsed },
+    type
+  ));
+  const links = getFragmentRootIds(fragment)
+    .flatMap(rootId => getParentIdsOf(rootId).map(parentId => createEdge(parentId, ids.get(rootId)!)));
+  // Main-tree parents stop being leaves, so they no longer link to the end node themselves
+  const mainTreeParentIds = new Set(links
+    .map(edge => edge.source)
+    .filter(parentId => parentId !== END_NODE_ID && !isDescendantOfOutput(parentId, graph.edges)));
+  const edges: Edge[] = [
+    ...graph.edges.filter(edge => !(edge.target === END_NODE_ID && mainTreeParentIds.has(edge.source))),
+    ...links,
+    ...fragment.edges.map(edge => createEdge(ids.get(edge.source)!, ids.get(edge.target)!)),
+  ];
+  return linkMainTreeLeavesToEnd({ nodes: [...graph.nodes, ...nodes], edges });
+}
+
+// Paste a copied fragment under a node; see validatePaste for what may go where
+export function pasteFragment(graph: FlowGraph, fragment: FlowGraph, parentId: string, firstNodeNumber: number): FlowGraph {
+  if (!graph.nodes.some(node => node.id === parentId)) return graph;
+  return addFragmentCopy(graph, fragment, firstNodeNumber, () => [parentId]);
+}
+
+// Copy the subtrees of the given nodes next to themselves, under the same parents
+export function duplicateSubtrees(graph: FlowGraph, nodeIds: string[], firstNodeNumber: number): FlowGraph {
+  const fragment = getSubtreeFragment(graph, nodeIds);
+  return addFragmentCopy(graph, fragment, firstNodeNumber, rootId => getParentIds(rootId, graph.edges));
+}
+
+// Remove the subtrees of the given nodes, as cutting them does
+export function deleteSubtrees(graph: FlowGraph, nodeIds: string[]): FlowGraph {
+  return getFragmentRootIds(getSubtreeFragment(graph, nodeIds))
+    .reduce((current, rootId) => deleteSubtree(current, rootId), graph);
+}
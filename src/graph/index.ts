@@ -0,0 +1,72 @@
+export {
+  END_NODE_ID,
+  ROOT_NODE_ID,
+  createEdge,
+  getAncestorIds,
+  getChildIds,
+  getNodeDepth,
+  getOutputTreeIds,
+  getParentIds,
+  getSubtreeIds,
+  isDescendantOfOutput,
+  linkMainTreeLeavesToEnd,
+} from "./flowGraph";
+export type { FlowGraph } from "./flowGraph";
+export {
+  addChildNode,
+  addSiblingNode,
+  canDeleteNode,
+  deleteNode,
+  deleteSubtree,
+  insertNodeAfter,
+  insertNodeBefore,
+  insertNodeOnEdge,
+  setNodeCollapsed,
+  setNodeField,
+  setNodeLabel,
+  setNodePinned,
+  unpinAllNodes,
+} from "./edits";
+export type { DeleteMode } from "./edits";
+export { getHiddenNodeIds, getVisibleGraph, isSummaryEdge } from "./collapse";
+export type { SummaryEdgeData, VisibleGraph } from "./collapse";
+export { checkGraphIntegrity } from "./integrity";
+export type { GraphIssue, GraphIssueKind, IntegrityReport } from "./integrity";
+export {
+  connectNodes,
+  getAllowedNewNodeTypes,
+  reparentNode,
+  validateConnection,
+  validateNodePlacement,
+  validateReparent,
+} from "./connections";
+export type { ConnectionValidation } from "./connections";
+export {
+  deleteSubtrees,
+  duplicateSubtrees,
+  getFragmentRootIds,
+  getSubtreeFragment,
+  pasteFragment,
+  validatePaste,
+} from "./fragments";
+export {
+  DEFAULT_NODE_HEIGHT,
+  DEFAULT_NODE_WIDTH,
+  createFlowNode,
+  getMinNodeCounter,
+} from "./nodes";
+export type { FlowNodeData } from "./nodes";
+export {
+  DEFAULT_NODE_TYPE,
+  canHaveChild,
+  getCreatableChildTypes,
+  getDefaultFieldValues,
+  getFieldValue,
+  getNodeType,
+  getNodeTypes,
+  inferNodeTypes,
+  isNodeType,
+  isValidFieldValue,
+  registerNodeType,
+} from "./nodeTypes";
+export type { FlowNodeType, NodeFieldSchema, NodeFieldValue } from "./nodeTypes";
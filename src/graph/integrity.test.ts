@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { END_NODE_ID, createEdge } from "./flowGraph";
+import { checkGraphIntegrity } from "./integrity";
+import { createFlowNode } from "./nodes";
+import { createTestGraph } from "./testGraph";
+
+describe("checkGraphIntegrity", () => {
+  it("finds nothing wrong with a well-formed flow", () => {
+    const report = checkGraphIntegrity(createTestGraph());
+    expect(report.issues).toEqual([]);
+    expect(report.unsafeEdgeIds.size).toBe(0);
+  });
+
+  it("reports dangling edges and marks them unsafe", () => {
+    const graph = createTestGraph();
+    graph.edges.push({ id: "stray", source: "a", target: "gone" });
+    const report = checkGraphIntegrity(graph);
+    expect(report.issues).toEqual([{
+      kind: "dangling-edge",
+      severity: "error",
+      message: 'Edge "stray" points to missing node "gone".',
+      nodeIds: ["a"],
+      edgeIds: ["stray"],
+    }]);
+    expect([...report.unsafeEdgeIds]).toEqual(["stray"]);
+  });
+
+  it("reports the edge that closes a cycle and marks it unsafe", () => {
+    const graph = createTestGraph();
+    graph.edges.push(createEdge("c", "a"));
+    const report = checkGraphIntegrity(graph);
+    expect(report.issues.map(issue => issue.kind)).toEqual(["cycle"]);
+    expect(report.issues[0].nodeIds).toEqual(["a", "c"]);
+    expect([...report.unsafeEdgeIds]).toEqual(["edge-c-a"]);
+  });
+
+  it("reports orphans, extra roots and leaves that don't reach the end node", () => {
+    const graph = createTestGraph();
+    graph.nodes.push(
+      createFlowNode("lonely", { label: "Lonely" }),
+      createFlowNode("island", { label: "Island" }),
+      createFlowNode("shore", { label: "Shore" })
+    );
+    graph.edges = graph.edges.filter(edge => edge.id !== "edge-b-end-node");
+    graph.edges.push(createEdge("island", "shore"), createEdge("shore", END_NODE_ID));
+
+    const issues = checkGraphIntegrity(graph).issues;
+    expect(issues.map(issue => [issue.kind, issue.severity, issue.nodeIds])).toEqual([
+      ["orphan", "warning", ["lonely"]],
+      ["multiple-roots", "warning", ["island"]],
+      ["unlinked-leaf", "warning", ["b"]],
+    ]);
+  });
+
+  it("doesn't expect output-tree leaves to link to the end node", () => {
+    const graph = createTestGraph();
+    graph.nodes.push(createFlowNode("report", { label: "Report" }, "output"));
+    graph.edges.push(createEdge("out", "report"));
+    expect(checkGraphIntegrity(graph).issues).toEqual([]);
+  });
+});
@@ -0,0 +1,164 @@
+import type { Edge } from "reactflow";
+import { END_NODE_ID, ROOT_NODE_ID, type FlowGraph } from "./flowGraph";
+
+export type GraphIssueKind =
+  | "dangling-edge"
+  | "cycle"
+  | "orphan"
+  | "multiple-roots"
+  | "unlinked-leaf";
+
+export interface GraphIssue {
+  kind: GraphIssueKind;
+  // Errors stop the graph from being laid out as drawn; warnings break a flow rule
+  severity: "error" | "warning";
+  message: string;
+  nodeIds: string[];
+  edgeIds: string[];
+}
+
+export interface IntegrityReport {
+  issues: GraphIssue[];
+  // Edges the layout should ignore: dangling edges and the edges that close cycles
+  unsafeEdgeIds: Set<string>;
+}
+
+function buildAdjacency(graph: FlowGraph, edges: Edge[]) {
+  const outgoing = new Map<string, Edge[]>(graph.nodes.map(node => [node.id, []]));
+  const incomingCount = new Map<string, number>(graph.nodes.map(node => [node.id, 0]));
+  edges.forEach(edge => {
+    outgoing.get(edge.source)!.push(edge);
+    incomingCount.set(edge.target, incomingCount.get(edge.target)! + 1);
+  });
+  return { outgoing, incomingCount };
+}
+
+// Depth-first search that reports every edge leading back onto the current path,
+// together with the nodes on the cycle it closes. Iterative, so deep graphs can't overflow the stack.
+function findCycles(graph: FlowGraph, outgoing: Map<string, Edge[]>): { edge: Edge; nodeIds: string[] }[] {
+  const cycles: { edge: Edge; nodeIds: string[] }[] = [];
+  const done = new Set<string>();
+  const onPath = new Set<string>();
+
+  graph.nodes.forEach(start => {
+    if (done.has(start.id)) return;
+    const path: { id: string; next: number }[] = [{ id: start.id, next: 0 }];
+    onPath.add(start.id);
+
+    while (path.length > 0) {
+      const frame = path[path.length - 1];
+      const edges = outgoing.get(frame.id)!;
+      if (frame.next >= edges.length) {
+        path.pop();
+        onPath.delete(frame.id);
+        done.add(frame.id);
+        continue;
+      }
+      const edge = edges[frame.next++];
+      if (onPath.has(edge.target)) {
+        const cycleStart = path.findIndex(f => f.id === edge.target);
+        cycles.push({ edge, nodeIds: path.slice(cycleStart).map(f => f.id) });
+      } else if (!done.has(edge.target)) {
+        path.push({ id: edge.target, next: 0 });
+        onPath.add(edge.target);
+      }
+    }
+  });
+
+  return cycles;
+}
+
+/**
+ * Check the graph against the rules the editor and the layout rely on:
+ * edges must join existing nodes, there must be no cycles, every node except the
+ * root must have a parent, and every main-tree leaf must link to the end node.
+ * Safe to run on any graph, however broken.
+ */
+export function checkGraphIntegrity(graph: FlowGraph): IntegrityReport {
+  const issues: GraphIssue[] = [];
+  const unsafeEdgeIds = new Set<string>();
+  const nodeIds = new Set(graph.nodes.map(node => node.id));
+
+  // Dangling edges
+  const validEdges = graph.edges.filter(edge => {
+    const missing = [edge.source, edge.target].filter(id => !nodeIds.has(id));
+    if (missing.length === 0) return true;
+    unsafeEdgeIds.add(edge.id);
+    issues.push({
+      kind: "dangling-edge",
+      severity: "error",
+      message: `Edge "${edge.id}" points to missing node ${missing.map(id => `"${id}"`).join(" and ")}.`,
+      nodeIds: [edge.source, edge.target].filter(id => nodeIds.has(id)),
+      edgeIds: [edge.id],
+    });
+    return false;
+  });
+
+  const { outgoing, incomingCount } = buildAdjacency(graph, validEdges);
+
+  // Cycles
+  findCycles(graph, outgoing).forEach(({ edge, nodeIds: cycleNodeIds }) => {
+    unsafeEdgeIds.add(edge.id);
+    issues.push({
+      kind: "cycle",
+      severity: "error",
+      message: `Cycle through ${cycleNodeIds.map(id => `"${id}"`).join(" → ")}.`,
+      nodeIds: cycleNodeIds,
+      edgeIds: [edge.id],
+    });
+  });
+
+  // Orphans (no edges at all) and extra roots (no parent, but children of their own)
+  const extraRoots: string[] = [];
+  graph.nodes.forEach(node => {
+    if (node.id === ROOT_NODE_ID || incomingCount.get(node.id)! > 0) return;
+    if (outgoing.get(node.id)!.length === 0) {
+      issues.push({
+        kind: "orphan",
+        severity: "warning",
+        message: `"${node.data?.label ?? node.id}" is not connected to anything.`,
+        nodeIds: [node.id],
+        edgeIds: [],
+      });
+    } else {
+      extraRoots.push(node.id);
+    }
+  });
+  if (extraRoots.length > 0) {
+    issues.push({
+      kind: "multiple-roots",
+      severity: "warning",
+      message: extraRoots.length === 1
+        ? `"${extraRoots[0]}" has no parent but starts a tree of its own.`
+        : `${extraRoots.length} nodes have no parent but start trees of their own.`,
+      nodeIds: extraRoots,
+      edgeIds: [],
+    });
+  }
+
+  // Main-tree leaves must link to the end node; nodes under the end node never do
+  const outputTreeIds = new Set<string>();
+  const stack = [END_NODE_ID];
+  while (stack.length > 0) {
+    (outgoing.get(stack.pop()!) || []).forEach(edge => {
+      if (outputTreeIds.has(edge.target) || edge.target === END_NODE_ID) return;
+      outputTreeIds.add(edge.target);
+      stack.push(edge.target);
+    });
+  }
+  graph.nodes.forEach(node => {
+    if (node.id === END_NODE_ID || outputTreeIds.has(node.id)) return;
+    if (outgoing.get(node.id)!.length > 0) return;
+    // Orphans have already been reported
+    if (node.id !== ROOT_NODE_ID && incomingCount.get(node.id) === 0) return;
+    issues.push({
+      kind: "unlinked-leaf",
+      severity: "warning",
+      message: `"${node.data?.label ?? node.id}" is a leaf but doesn't link to the end node.`,
+      nodeIds: [node.id],
+      edgeIds: [],
+    });
+  });
+
+  return { issues, unsafeEdgeIds };
+}
@@ -0,0 +1,170 @@
+import type { NodeColors } from "../theme";
+import { END_NODE_ID, ROOT_NODE_ID, getOutputTreeIds, type FlowGraph } from "./flowGraph";
+
+export type NodeFieldValue = string | number | boolean;
+
+// One editable field of a node type's data, rendered as a form control inside the node
+export type NodeFieldSchema =
+  | { kind: "text"; key: string; label: string; default: string; placeholder?: string }
+  | { kind: "number"; key: string; label: string; default: number; min?: number; max?: number; step?: number }
+  | { kind: "select"; key: string; label: string; default: string; options: string[] }
+  | { kind: "boolean"; key: string; label: string; default: boolean };
+
+export interface FlowNodeType {
+  id: string;
+  // Shown in the node's header and in menus, e.g. "Add child: Decision"
+  label: string;
+  fields: NodeFieldSchema[];
+  // Width the node is drawn at, and the size layout assumes until React Flow has measured it
+  defaultSize: { width: number; height: number };
+  colors: NodeColors;
+  // Types a node of this type may have as children
+  allowedChildTypes: string[];
+  // Whether users can add nodes of this type; the root and the end node exist once per flow
+  creatable: boolean;
+}
+
+const MAIN_TREE_CHILD_TYPES = ["step", "decision", "end"];
+
+const BUILT_IN_NODE_TYPES: FlowNodeType[] = [
+  {
+    id: "start",
+    label: "Start",
+    fields: [
+      { kind: "select", key: "trigger", label: "Trigger", default: "Manual", options: ["Manual", "Schedule", "Webhook"] },
+    ],
+    defaultSize: { width: 280, height: 140 },
+    colors: { background: "#e8f5e9", border: "#43a047", borderWidth: 2 },
+    allowedChildTypes: MAIN_TREE_CHILD_TYPES,
+    creatable: false,
+  },
+  {
+    id: "step",
+    label: "Step",
+    fields: [
+      { kind: "text", key: "action", label: "Action", default: "", placeholder: "What this step does" },
+      { kind: "number", key: "timeout", label: "Timeout (s)", default: 30, min: 0, step: 5 },
+      { kind: "boolean", key: "retry", label: "Retry on failure", default: false },
+    ],
+    defaultSize: { width: 320, height: 200 },
+    colors: { background: "#fff", border: "#ddd", borderWidth: 1 },
+    allowedChildTypes: MAIN_TREE_CHILD_TYPES,
+    creatable: true,
+  },
+  {
+    id: "decision",
+    label: "Decision",
+    fields: [
+      { kind: "text", key: "condition", label: "Condition", default: "", placeholder: "e.g. amount > 100" },
+    ],
+    defaultSize: { width: 320, height: 160 },
+    colors: { background: "#e3f2fd", border: "#1e88e5", borderWidth: 2 },
+    allowedChildTypes: MAIN_TREE_CHILD_TYPES,
+    creatable: true,
+  },
+  {
+    id: "end",
+    label: "End",
+    fields: [],
+    defaultSize: { width: 240, height: 100 },
+    // Highlighted so the merge point of the flow stands out
+    colors: { background: "#ffeb3b", border: "#f57f17", borderWidth: 2 },
+    allowedChildTypes: ["output"],
+    creatable: false,
+  },
+  {
+    id: "output",
+    label: "Output",
+    fields: [
+      { kind: "select", key: "format", label: "Format", default: "JSON", options: ["JSON", "CSV", "Text"] },
+      { kind: "text", key: "destination", label: "Destination", default: "", placeholder: "File, URL or channel" },
+    ],
+    defaultSize: { width: 300, height: 180 },
+    colors: { background: "#f3e5f5", border: "#8e24aa", borderWidth: 1 },
+    allowedChildTypes: ["output"],
+    creatable: true,
+  },
+];
+
+// Node types by id; register more before the editor renders so React Flow knows them
+const nodeTypes = new Map(BUILT_IN_NODE_TYPES.map(type => [type.id, type]));
+
+// Type of nodes added without one, and of nodes whose type is no longer registered
+export const DEFAULT_NODE_TYPE = "step";
+
+export function registerNodeType(type: FlowNodeType): void {
+  nodeTypes.set(type.id, type);
+}
+
+export function getNodeTypes(): FlowNodeType[] {
+  return [...nodeTypes.values()];
+}
+
+export function isNodeType(typeId: unknown): typeId is string {
+  return typeof typeId === "string" && nodeTypes.has(typeId);
+}
+
+export function getNodeType(typeId: string | undefined): FlowNodeType {
+  return (typeId && nodeTypes.get(typeId)) || nodeTypes.get(DEFAULT_NODE_TYPE)!;
+}
+
+export function canHaveChild(parentTypeId: string | undefined, childTypeId: string | undefined): boolean {
+  return getNodeType(parentTypeId).allowedChildTypes.includes(getNodeType(childTypeId).id);
+}
+
+// Types users can add under a node of the given type, in the order the type lists them
+export function getCreatableChildTypes(parentTypeId: string | undefined): FlowNodeType[] {
+  return getNodeType(parentTypeId).allowedChildTypes
+    .map(typeId => nodeTypes.get(typeId))
+    .filter((type): type is FlowNodeType => Boolean(type?.creatable));
+}
+
+export function getDefaultFieldValues(typeId: string): Record<string, NodeFieldValue> {
+  return Object.fromEntries(getNodeType(typeId).fields.map(field => [field.key, field.default]));
+}
+
+// Whether a value fits the field, e.g. one of a select's options
+export function isValidFieldValue(field: NodeFieldSchema, value: unknown): value is NodeFieldValue {
+  switch (field.kind) {
+    case "text":
+      return typeof value === "string";
+    case "number":
+      return typeof value === "number" && Number.isFinite(value)
+        && (field.min === undefined || value >= field.min)
+        && (field.max === undefined || value <= field.max);
+    case "select":
+      return typeof value === "string" && field.options.includes(value);
+    case "boolean":
+      return typeof value === "boolean";
+  }
+}
+
+// A node's value for a field of its type, or the field's default if it has none yet
+export function getFieldValue(fields: Record<string, unknown> | undefined, field: NodeFieldSchema): NodeFieldValue {
+  const value = fields?.[field.key];
+  return isValidFieldValue(field, value) ? value : field.default;
+}
+
+/**
+ * Give every node the type its place in the flow implies: the root starts it, the end node
+ * ends it, the end node's descendants are outputs and everything else is a step.
+ * Fields are reset to fit the new type. For flows from sources that don't record types, such as
+ * older documents and diagrams.
+ */
+export function inferNodeTypes(graph: FlowGraph): FlowGraph {
+  const outputTreeIds = getOutputTreeIds(graph.edges);
+  const typeOf = (nodeId: string) =>
+    nodeId === ROOT_NODE_ID ? "start"
+      : nodeId === END_NODE_ID ? "end"
+        : outputTreeIds.has(nodeId) ? "output"
+          : DEFAULT_NODE_TYPE;
+  return {
+    ...graph,
+    nodes: graph.nodes.map(node => {
+      const type = getNodeType(typeOf(node.id));
+      // Keep the values that fit the new type's fields; the rest start at their defaults
+      const fields = Object.fromEntries(type.fields.map(field => [field.key, getFieldValue(node.data?.fields, field)]));
+      return { ...node, type: type.id, data: { ...node.data, fields } };
+    }),
+  };
+}
@@ -0,0 +1,37 @@
+import type { Node, XYPosition } from "reactflow";
+import { DEFAULT_LAYOUT_OPTIONS } from "../layout/options";
+import { DEFAULT_NODE_TYPE, getDefaultFieldValues, type NodeFieldValue } from "./nodeTypes";
+
+// Size assumed for a node until React Flow has measured its rendered content
+export const DEFAULT_NODE_WIDTH = DEFAULT_LAYOUT_OPTIONS.defaultNodeWidth;
+export const DEFAULT_NODE_HEIGHT = DEFAULT_LAYOUT_OPTIONS.defaultNodeHeight;
+
+export interface FlowNodeData {
+  label: string;
+  // Collapsed nodes only render their header
+  collapsed?: boolean;
+  // Where the user pinned the node; layout keeps it there instead of placing it
+  pinnedPosition?: XYPosition;
+  // Values of the node type's fields by key; see getFieldValue for missing ones
+  fields?: Record<string, NodeFieldValue>;
+}
+
+// Build a React Flow node of one of the registered node types, with the type's default field
+// values. No size is set: React Flow measures the rendered content, and ELK positions the
+// node once it has a size.
+export function createFlowNode(id: string, data: FlowNodeData, type = DEFAULT_NODE_TYPE): Node<FlowNodeData> {
+  return {
+    id,
+    type,
+    data: { ...data, fields: { ...getDefaultFieldValues(type), ...data.fields } },
+    position: { x: 0, y: 0 }, // Will be positioned by ELK
+  };
+}
+
+// Lowest node counter that can't reuse an id in the graph: one past the largest N of its node-N ids
+export function getMinNodeCounter(nodes: Node[]): number {
+  return nodes.reduce((min, node) => {
+    const match = /^node-(\d+)$/.exec(node.id);
+    return match ? Math.max(min, Number(match[1]) + 1) : min;
+  }, 1);
+}
@@ -0,0 +1,30 @@
+// Fixtures shared by the graph module's tests
+import { END_NODE_ID, ROOT_NODE_ID, createEdge, type FlowGraph } from "./flowGraph";
+import { createFlowNode } from "./nodes";
+
+// root → a → c and root → b, both leaves linked to the end node, and "out" under the end node
+export function createTestGraph(): FlowGraph {
+  return {
+    nodes: [
+      createFlowNode(ROOT_NODE_ID, { label: "Start" }, "start"),
+      createFlowNode("a", { label: "A" }),
+      createFlowNode("b", { label: "B" }),
+      createFlowNode("c", { label: "C" }),
+      createFlowNode(END_NODE_ID, { label: "End" }, "end"),
+      createFlowNode("out", { label: "Out" }, "output"),
+    ],
+    edges: [
+      createEdge(ROOT_NODE_ID, "a"),
+      createEdge(ROOT_NODE_ID, "b"),
+      createEdge("a", "c"),
+      createEdge("b", END_NODE_ID),
+      createEdge("c", END_NODE_ID),
+      createEdge(END_NODE_ID, "out"),
+    ],
+  };
+}
+
+// Edge ids in sorted order, so assertions don't depend on the order edits add edges in
+export function getSortedEdgeIds(graph: FlowGraph): string[] {
+  return graph.edges.map(edge => edge.id).sort();
+}
@@ -0,0 +1,25 @@
+import { useState } from "react";
+import type { Node } from "reactflow";
+
+// Same nodes in the same order, with the same types and data objects
+function hasSameStructure(previous: Node[], nodes: Node[]): boolean {
+  return previous.length === nodes.length && nodes.every((node, index) =>
+    node.id === previous[index].id && node.type === previous[index].type && node.data === previous[index].data
+  );
+}
+
+/**
+ * The nodes as they were at the last structural change: the same array for as long as only
+ * positions, sizes, styles or selection change, as they do on every frame of a drag or layout
+ * animation. Memos keyed on it rerun only when a node is added, removed, retyped or has its data
+ * (label, fields, collapsed, pinned) changed.
+ */
+export function useStructuralNodes(nodes: Node[]): Node[] {
+  // Kept in state rather than a ref, so a render React throws away can't leave it updated
+  const [structuralNodes, setStructuralNodes] = useState(nodes);
+  if (!hasSameStructure(structuralNodes, nodes)) {
+    setStructuralNodes(nodes);
+    return nodes;
+  }
+  return structuralNodes;
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { EMPTY_HISTORY, pushCommand, redoCommand, undoCommand, type HistoryCommand } from "./history";
+
+function command(label: string, before: number, after: number): HistoryCommand {
+  return {
+    label,
+    before: { graph: { nodes: [], edges: [] }, nodeCounter: before },
+    after: { graph: { nodes: [], edges: [] }, nodeCounter: after },
+  };
+}
+
+describe("flow history", () => {
+  it("undoes and redoes edits in order", () => {
+    const first = command("Add node", 1, 2);
+    const second = command("Add node", 2, 3);
+    const history = pushCommand(pushCommand(EMPTY_HISTORY, first), second);
+
+    const undone = undoCommand(history)!;
+    expect(undone.command).toBe(second);
+    expect(undone.history).toEqual({ past: [first], future: [second] });
+
+    const redone = redoCommand(undone.history)!;
+    expect(redone.command).toBe(second);
+    expect(redone.history).toEqual({ past: [first, second], future: [] });
+  });
+
+  it("has nothing to undo or redo when empty", () => {
+    expect(undoCommand(EMPTY_HISTORY)).toBeNull();
+    expect(redoCommand(EMPTY_HISTORY)).toBeNull();
+  });
+
+  it("drops the redo stack when a new edit is recorded", () => {
+    const undone = undoCommand(pushCommand(EMPTY_HISTORY, command("Add node", 1, 2)))!;
+    const history = pushCommand(undone.history, command("Delete node", 1, 1));
+    expect(history.future).toEqual([]);
+    expect(redoCommand(history)).toBeNull();
+  });
+
+  it("keeps at most 100 undo steps, dropping the oldest", () => {
+    let history = EMPTY_HISTORY;
+    for (let i = 0; i < 105; i++) history = pushCommand(history, command(`Edit ${i}`, i, i + 1));
+    expect(history.past).toHaveLength(100);
+    expect(history.past[0].label).toBe("Edit 5");
+  });
+});
@@ -0,0 +1,53 @@
+import type { FlowGraph } from "./graph";
+
+// Everything an edit can change. nodeCounter is included so undoing an add
+// hands the same id out again instead of skipping it.
+export interface FlowSnapshot {
+  graph: FlowGraph;
+  nodeCounter: number;
+}
+
+// One structural edit, stored as the state on either side of it
+export interface HistoryCommand {
+  label: string;
+  before: FlowSnapshot;
+  after: FlowSnapshot;
+}
+
+export interface FlowHistory {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+// Oldest entries are dropped beyond this many undo steps
+const MAX_HISTORY_LENGTH = 100;
+
+export const EMPTY_HISTORY: FlowHistory = { past: [], future: [] };
+
+// Record a new edit; anything that was undone can no longer be redone
+export function pushCommand(history: FlowHistory, command: HistoryCommand): FlowHistory {
+  return {
+    past: [...history.past, command].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+  };
+}
+
+// Move the latest edit onto the redo stack. Restore `command.before` to apply it.
+export function undoCommand(history: FlowHistory): { history: FlowHistory; command: HistoryCommand } | null {
+  const command = history.past[history.past.length - 1];
+  if (!command) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [command, ...history.future] },
+    command,
+  };
+}
+
+// Move the latest undone edit back onto the undo stack. Restore `command.after` to apply it.
+export function redoCommand(history: FlowHistory): { history: FlowHistory; command: HistoryCommand } | null {
+  const command = history.future[0];
+  if (!command) return null;
+  return {
+    history: { past: [...history.past, command], future: history.future.slice(1) },
+    command,
+  };
+}
@@ -0,0 +1,95 @@
+import type { LayoutDirection, LayoutOptions, LayoutPoint, PositionedNode } from "./types";
+
+export type NodeSide = "top" | "right" | "bottom" | "left";
+
+// Side of a node that outgoing edges leave from and incoming edges arrive at
+export interface DirectionSides {
+  source: NodeSide;
+  target: NodeSide;
+}
+
+export const LAYOUT_DIRECTIONS: LayoutDirection[] = ["DOWN", "RIGHT", "UP", "LEFT"];
+
+const DIRECTION_SIDES: Record<LayoutDirection, DirectionSides> = {
+  DOWN: { source: "bottom", target: "top" },
+  RIGHT: { source: "right", target: "left" },
+  UP: { source: "top", target: "bottom" },
+  LEFT: { source: "left", target: "right" },
+};
+
+export function getDirectionSides(direction: LayoutDirection): DirectionSides {
+  return DIRECTION_SIDES[direction];
+}
+
+// RIGHT and LEFT lay depth out along the x axis
+export function isHorizontalDirection(direction: LayoutDirection): boolean {
+  return direction === "RIGHT" || direction === "LEFT";
+}
+
+// Centre of the given side of a node
+export function getSidePoint(node: PositionedNode, side: NodeSide): LayoutPoint {
+  const { x, y } = node.position;
+  switch (side) {
+    case "top": return { x: x + node.width / 2, y };
+    case "bottom": return { x: x + node.width / 2, y: y + node.height };
+    case "left": return { x, y: y + node.height / 2 };
+    case "right": return { x: x + node.width, y: y + node.height / 2 };
+  }
+}
+
+// Edges are drawn straight from the centre of the source's outgoing side
+// to the centre of the target's incoming side
+export function getEdgeEndpoints(
+  source: PositionedNode,
+  target: PositionedNode,
+  direction: LayoutDirection = "DOWN"
+): [LayoutPoint, LayoutPoint] {
+  const sides = getDirectionSides(direction);
+  return [getSidePoint(source, sides.source), getSidePoint(target, sides.target)];
+}
+
+/**
+ * The post-processing passes are written for a top-down tree, with depth on the y axis.
+ * Other directions are mapped into that frame before the passes run and mapped back
+ * afterwards: RIGHT and LEFT swap the axes, UP and LEFT mirror the depth axis.
+ */
+export function toDownFrame(node: PositionedNode, direction: LayoutDirection): PositionedNode {
+  const { x, y } = node.position;
+  switch (direction) {
+    case "DOWN": return node;
+    case "UP": return { ...node, position: { x, y: -(y + node.height) } };
+    case "RIGHT": return { ...node, position: { x: y, y: x }, width: node.height, height: node.width };
+    case "LEFT": return { ...node, position: { x: y, y: -(x + node.width) }, width: node.height, height: node.width };
+  }
+}
+
+// Inverse of toDownFrame
+export function fromDownFrame(node: PositionedNode, direction: LayoutDirection): PositionedNode {
+  const { x, y } = node.position;
+  switch (direction) {
+    case "DOWN": return node;
+    case "UP": return { ...node, position: { x, y: -(y + node.height) } };
+    case "RIGHT": return { ...node, position: { x: y, y: x }, width: node.height, height: node.width };
+    case "LEFT": return { ...node, position: { x: -(y + node.height), y: x }, width: node.height, height: node.width };
+  }
+}
+
+// A single point mapped like toDownFrame, e.g. an edge bend point
+export function pointToDownFrame(point: LayoutPoint, direction: LayoutDirection): LayoutPoint {
+  return toDownFrame({ id: "", position: point, width: 0, height: 0 }, direction).position;
+}
+
+// Inverse of pointToDownFrame
+export function pointFromDownFrame(point: LayoutPoint, direction: LayoutDirection): LayoutPoint {
+  return fromDownFrame({ id: "", position: point, width: 0, height: 0 }, direction).position;
+}
+
+// Options as seen from the top-down frame: default sizes follow the swapped axes
+export function toDownFrameOptions(options: LayoutOptions): LayoutOptions {
+  if (!isHorizontalDirection(options.direction)) return options;
+  return {
+    ...options,
+    defaultNodeWidth: options.defaultNodeHeight,
+    defaultNodeHeight: options.defaultNodeWidth,
+  };
+}
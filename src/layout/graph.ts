@@ -0,0 +1,132 @@
+import type { LayoutBounds, LayoutEdge, PositionedNode } from "./types";
+
+// Build parent -> children map
+export function buildChildrenMap(edges: LayoutEdge[]): Map<string, string[]> {
+  const childrenMap = new Map<string, string[]>();
+  edges.forEach(edge => {
+    if (!childrenMap.has(edge.source)) {
+      childrenMap.set(edge.source, []);
+    }
+    childrenMap.get(edge.source)!.push(edge.target);
+  });
+  return childrenMap;
+}
+
+/**
+ * Compute a value for every node reachable from the start nodes, children before their parents,
+ * e.g. heights or subtree widths. Uses an explicit stack, so long chains can't overflow the call stack.
+ * A node met again on its own path (a cycle) has no value yet when its parent is computed.
+ * @param compute - Value of a node from its children's values, read from the returned map
+ * @param values - Values already known; filled in and returned
+ */
+export function computeBottomUp(
+  startIds: Iterable<string>,
+  children: Map<string, string[]>,
+  compute: (nodeId: string, childIds: string[]) => number,
+  values: Map<string, number> = new Map()
+): Map<string, number> {
+  const visiting = new Set<string>();
+  for (const startId of startIds) {
+    if (values.has(startId)) continue;
+    visiting.add(startId);
+    const stack = [{ id: startId, next: 0 }];
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1];
+      const childIds = children.get(frame.id) || [];
+      if (frame.next < childIds.length) {
+        const childId = childIds[frame.next++];
+        if (!values.has(childId) && !visiting.has(childId)) {
+          visiting.add(childId);
+          stack.push({ id: childId, next: 0 });
+        }
+        continue;
+      }
+      values.set(frame.id, compute(frame.id, childIds));
+      visiting.delete(frame.id);
+      stack.pop();
+    }
+  }
+  return values;
+}
+
+/**
+ * Adjacency lists for one set of edges, built once and shared by the layout passes
+ * so that none of them scans the edge list inside a loop.
+ */
+export interface GraphIndex {
+  children: Map<string, string[]>;
+  parents: Map<string, string[]>;
+  // Children with merge nodes counted under their first parent only, i.e. a spanning tree
+  treeChildren: Map<string, string[]>;
+  // Number of levels below the node down to its deepest leaf; memoised, so each node is visited once
+  height(nodeId: string): number;
+}
+
+export function indexGraph(edges: LayoutEdge[]): GraphIndex {
+  const children = buildChildrenMap(edges);
+  const parents = new Map<string, string[]>();
+  const treeChildren = new Map<string, string[]>();
+  edges.forEach(edge => {
+    const edgeParents = parents.get(edge.target);
+    if (edgeParents) {
+      edgeParents.push(edge.source);
+      return;
+    }
+    parents.set(edge.target, [edge.source]);
+    if (!treeChildren.has(edge.source)) treeChildren.set(edge.source, []);
+    treeChildren.get(edge.source)!.push(edge.target);
+  });
+
+  const heights = new Map<string, number>();
+  const height = (nodeId: string): number => {
+    const known = heights.get(nodeId);
+    if (known !== undefined) return known;
+    computeBottomUp([nodeId], children, (_id, childIds) =>
+      childIds.reduce((deepest, childId) => Math.max(deepest, 1 + (heights.get(childId) ?? 0)), 0), heights);
+    return heights.get(nodeId)!;
+  };
+
+  return { children, parents, treeChildren, height };
+}
+
+// True if any node has more than one parent, i.e. the graph is a DAG rather than a tree
+export function hasMergeNodes(edges: LayoutEdge[]): boolean {
+  const targets = new Set<string>();
+  return edges.some(edge => {
+    if (targets.has(edge.target)) return true;
+    targets.add(edge.target);
+    return false;
+  });
+}
+
+// Get the ids of every node reachable from the given node, excluding the node itself.
+// Nodes reachable along several paths are listed once.
+export function getDescendantIds(
+  nodeId: string,
+  edges: LayoutEdge[],
+  childrenMap: Map<string, string[]> = buildChildrenMap(edges)
+): string[] {
+  const visited = new Set<string>([nodeId]);
+  const allDescendants: string[] = [];
+  const stack = [nodeId];
+  while (stack.length > 0) {
+    const currentId = stack.pop()!;
+    (childrenMap.get(currentId) || []).forEach(childId => {
+      if (visited.has(childId)) return;
+      visited.add(childId);
+      allDescendants.push(childId);
+      stack.push(childId);
+    });
+  }
+  return allDescendants;
+}
+
+// Smallest box enclosing all of the given nodes
+export function getLayoutBounds(nodes: PositionedNode[]): LayoutBounds {
+  if (nodes.length === 0) return { x: 0, y: 0, width: 0, height: 0 };
+  const minX = Math.min(...nodes.map(node => node.position.x));
+  const minY = Math.min(...nodes.map(node => node.position.y));
+  const maxX = Math.max(...nodes.map(node => node.position.x + node.width));
+  const maxY = Math.max(...nodes.map(node => node.position.y + node.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
@@ -0,0 +1,53 @@
+export { layoutGraph } from "./layoutGraph";
+export { getLayoutBounds, indexGraph } from "./graph";
+export type { GraphIndex } from "./graph";
+export { DEFAULT_LAYOUT_OPTIONS, resolveLayoutOptions } from "./options";
+export {
+  alignSiblingsAtTop,
+  applyLayoutPasses,
+  calculateSubtreeWidths,
+  centerInputNodeForSkewedGraph,
+  centerParentsOverChildren,
+  constrainChildrenToParent,
+  placePinnedNodes,
+} from "./passes";
+export type {
+  LayoutBounds,
+  LayoutDirection,
+  LayoutEdge,
+  LayoutEdgeRouting,
+  LayoutNode,
+  LayoutOptions,
+  LayoutOptionsInput,
+  LayoutPadding,
+  LayoutPasses,
+  LayoutPoint,
+  LayoutResult,
+  LayoutStrategyId,
+  LayoutStrategySettings,
+  PositionedNode,
+} from "./types";
+export { createLayoutWorkerClient } from "./workerClient";
+export type { LayoutWorkerClient } from "./workerClient";
+export {
+  fromDownFrame,
+  getDirectionSides,
+  getEdgeEndpoints,
+  getSidePoint,
+  isHorizontalDirection,
+  LAYOUT_DIRECTIONS,
+  pointFromDownFrame,
+  pointToDownFrame,
+  toDownFrame,
+} from "./direction";
+export type { DirectionSides, NodeSide } from "./direction";
+export { checkLayoutQuality } from "./quality";
+export { routeEdges } from "./routes";
+export type { LayoutQualityOptions, LayoutViolation, LayoutViolationKind } from "./quality";
+export {
+  getLayoutStrategy,
+  isLayoutStrategyId,
+  LAYOUT_STRATEGIES,
+  LAYOUT_STRATEGY_IDS,
+} from "./strategies";
+export type { LayoutSettingSchema, LayoutStrategy } from "./strategies";
@@ -0,0 +1,34 @@
+/// <reference lib="webworker" />
+import { layoutGraph } from "./layoutGraph";
+import type { LayoutWorkerRequest, LayoutWorkerResponse } from "./workerClient";
+
+declare const self: DedicatedWorkerGlobalScope;
+
+// Newest request received but not yet started. ELK yields between steps, so requests
+// that arrive while a layout is running replace each other here and only the last one runs.
+let pending: LayoutWorkerRequest | null = null;
+let running = false;
+
+async function drain() {
+  running = true;
+  while (pending) {
+    const request = pending;
+    pending = null;
+    let response: LayoutWorkerResponse;
+    try {
+      const result = await layoutGraph(request.nodes, request.edges, request.options);
+      response = { generation: request.generation, result };
+    } catch (error) {
+      response = { generation: request.generation, error: String(error) };
+    }
+    self.postMessage(response);
+  }
+  running = false;
+}
+
+self.onmessage = (event: MessageEvent<LayoutWorkerRequest>) => {
+  pending = event.data;
+  if (!running) {
+    drain();
+  }
+};
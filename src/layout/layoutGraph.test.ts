@@ -0,0 +1,147 @@
+import { describe, expect, it } from "vitest";
+import { LAYOUT_DIRECTIONS } from "./direction";
+import { layoutGraph } from "./layoutGraph";
+import { DEFAULT_LAYOUT_OPTIONS, resolveLayoutOptions } from "./options";
+import { checkLayoutQuality } from "./quality";
+import { LAYOUT_STRATEGY_IDS } from "./strategies";
+import type { LayoutEdge, LayoutNode, LayoutResult, PositionedNode } from "./types";
+
+// root → a → c and root → b; both leaves link to the end node, which has one output node
+const NODES: LayoutNode[] = [
+  { id: "root", width: 200, height: 100 },
+  { id: "a", width: 200, height: 100 },
+  { id: "b", width: 200, height: 150 },
+  { id: "c", width: 200, height: 100 },
+  { id: "end-node", width: 200, height: 100 },
+  { id: "out", width: 200, height: 100 },
+];
+
+const EDGES: LayoutEdge[] = [
+  { id: "root-a", source: "root", target: "a" },
+  { id: "root-b", source: "root", target: "b" },
+  { id: "a-c", source: "a", target: "c" },
+  { id: "b-end", source: "b", target: "end-node" },
+  { id: "c-end", source: "c", target: "end-node" },
+  { id: "end-out", source: "end-node", target: "out" },
+];
+
+// Twelve branches of six leaves of mixed heights, every leaf linked to the end node
+function wideTree(): { nodes: LayoutNode[]; edges: LayoutEdge[] } {
+  const nodes: LayoutNode[] = [{ id: "root", height: 300 }, { id: "end-node", height: 300 }];
+  const edges: LayoutEdge[] = [];
+  for (let branch = 0; branch < 12; branch++) {
+    const branchId = `branch-${branch}`;
+    nodes.push({ id: branchId, height: 300 });
+    edges.push({ id: `root-${branchId}`, source: "root", target: branchId });
+    for (let leaf = 0; leaf < 6; leaf++) {
+      const leafId = `${branchId}-leaf-${leaf}`;
+      nodes.push({ id: leafId, height: 200 + ((branch * 6 + leaf) * 137) % 300 });
+      edges.push({ id: `${branchId}-${leafId}`, source: branchId, target: leafId });
+      edges.push({ id: `${leafId}-end`, source: leafId, target: "end-node" });
+    }
+  }
+  return { nodes, edges };
+}
+
+function positioned(nodes: LayoutNode[], result: LayoutResult): PositionedNode[] {
+  return nodes.map(node => ({
+    id: node.id,
+    position: result.positions[node.id],
+    width: node.width ?? DEFAULT_LAYOUT_OPTIONS.defaultNodeWidth,
+    height: node.height ?? DEFAULT_LAYOUT_OPTIONS.defaultNodeHeight,
+  }));
+}
+
+describe("layoutGraph", () => {
+  it("positions every node inside the returned bounds", async () => {
+    const result = await layoutGraph(NODES, EDGES);
+    const { bounds } = result;
+    positioned(NODES, result).forEach(node => {
+      expect(node.position.x).toBeGreaterThanOrEqual(bounds.x);
+      expect(node.position.y).toBeGreaterThanOrEqual(bounds.y);
+      expect(node.position.x + node.width).toBeLessThanOrEqual(bounds.x + bounds.width);
+      expect(node.position.y + node.height).toBeLessThanOrEqual(bounds.y + bounds.height);
+    });
+  });
+
+  it("puts children below their parents and the end node below the main tree", async () => {
+    const { positions } = await layoutGraph(NODES, EDGES);
+    expect(positions.a.y).toBeGreaterThanOrEqual(positions.root.y + 100);
+    expect(positions.c.y).toBeGreaterThanOrEqual(positions.a.y + 100);
+    ["root", "a", "b", "c"].forEach(id => {
+      expect(positions["end-node"].y).toBeGreaterThan(positions[id].y);
+    });
+    expect(positions.out.y).toBeGreaterThanOrEqual(positions["end-node"].y + 100);
+  });
+
+  it("grows the tree along the layout direction", async () => {
+    const right = await layoutGraph(NODES, EDGES, { direction: "RIGHT" });
+    expect(right.positions.a.x).toBeGreaterThanOrEqual(right.positions.root.x + 200);
+    const up = await layoutGraph(NODES, EDGES, { direction: "UP" });
+    expect(up.positions.a.y + 100).toBeLessThanOrEqual(up.positions.root.y);
+    const left = await layoutGraph(NODES, EDGES, { direction: "LEFT" });
+    expect(left.positions.a.x + 200).toBeLessThanOrEqual(left.positions.root.x);
+  });
+
+  it("lays out without overlaps with every strategy in every direction", async () => {
+    for (const strategy of LAYOUT_STRATEGY_IDS) {
+      for (const direction of LAYOUT_DIRECTIONS) {
+        const result = await layoutGraph(NODES, EDGES, { strategy, direction });
+        const overlaps = checkLayoutQuality(positioned(NODES, result), EDGES, { direction })
+          .filter(violation => violation.kind === "node-overlap");
+        expect(overlaps, `${strategy} ${direction}`).toEqual([]);
+      }
+    }
+  });
+
+  it("keeps pinned nodes where they were pinned and moves the rest clear of them", async () => {
+    const nodes = NODES.map(node => node.id === "b" ? { ...node, pinnedPosition: { x: 1000, y: 40 } } : node);
+    const result = await layoutGraph(nodes, EDGES);
+    expect(result.positions.b).toEqual({ x: 1000, y: 40 });
+    const overlaps = checkLayoutQuality(positioned(nodes, result), EDGES)
+      .filter(violation => violation.kind === "node-overlap");
+    expect(overlaps).toEqual([]);
+  });
+
+  it("routes every edge", async () => {
+    const { edgeRoutes } = await layoutGraph(NODES, EDGES, { edgeRouting: "ORTHOGONAL" });
+    expect(Object.keys(edgeRoutes).sort()).toEqual(EDGES.map(edge => edge.id).sort());
+  });
+
+  it("routes edges around the nodes of a wide tree", async () => {
+    const { nodes, edges } = wideTree();
+    for (const edgeRouting of ["POLYLINE", "ORTHOGONAL"] as const) {
+      const result = await layoutGraph(nodes, edges, { edgeRouting });
+      const crossings = checkLayoutQuality(positioned(nodes, result), edges, { edgeRoutes: result.edgeRoutes })
+        .filter(violation => violation.kind === "edge-through-node");
+      expect(crossings, edgeRouting).toEqual([]);
+    }
+  });
+
+  it("lays out graphs without a sink node", async () => {
+    const nodes = NODES.filter(node => node.id !== "end-node" && node.id !== "out");
+    const edges = EDGES.filter(edge => edge.source !== "end-node" && edge.target !== "end-node");
+    const { positions } = await layoutGraph(nodes, edges, { sinkNodeId: null });
+    expect(Object.keys(positions).sort()).toEqual(["a", "b", "c", "root"]);
+  });
+});
+
+describe("resolveLayoutOptions", () => {
+  it("fills in omitted options with the defaults", () => {
+    expect(resolveLayoutOptions()).toEqual(DEFAULT_LAYOUT_OPTIONS);
+  });
+
+  it("merges nested options key by key", () => {
+    const options = resolveLayoutOptions({
+      padding: { top: 0 },
+      passes: { alignSiblings: false },
+      strategySettings: { layered: { layerSpacing: 120 } },
+    });
+    expect(options.padding).toEqual({ ...DEFAULT_LAYOUT_OPTIONS.padding, top: 0 });
+    expect(options.passes).toEqual({ ...DEFAULT_LAYOUT_OPTIONS.passes, alignSiblings: false });
+    expect(options.strategySettings.layered).toEqual({
+      ...DEFAULT_LAYOUT_OPTIONS.strategySettings.layered,
+      layerSpacing: 120,
+    });
+  });
+});
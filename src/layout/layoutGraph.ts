@@ -0,0 +1,307 @@
+import ELK from "elkjs/lib/elk.bundled.js";
+import type { ElkExtendedEdge, ElkNode } from "elkjs/lib/elk-api";
+import {
+  fromDownFrame,
+  getDirectionSides,
+  isHorizontalDirection,
+  pointFromDownFrame,
+  pointToDownFrame,
+  toDownFrame,
+  toDownFrameOptions,
+} from "./direction";
+import { getDescendantIds, getLayoutBounds, hasMergeNodes, indexGraph } from "./graph";
+import { resolveLayoutOptions } from "./options";
+import { applyLayoutPasses, calculateSubtreeWidths, placePinnedNodes } from "./passes";
+import { routeEdges } from "./routes";
+import { getLayoutStrategy, LAYOUT_STRATEGIES } from "./strategies";
+import type {
+  LayoutDirection,
+  LayoutEdge,
+  LayoutNode,
+  LayoutOptions,
+  LayoutOptionsInput,
+  LayoutPoint,
+  LayoutResult,
+  PositionedNode,
+} from "./types";
+
+const elk = new ELK();
+
+function nodeWidth(node: LayoutNode, options: LayoutOptions): number {
+  return node.width || options.defaultNodeWidth;
+}
+
+function nodeHeight(node: LayoutNode, options: LayoutOptions): number {
+  return node.height || options.defaultNodeHeight;
+}
+
+// Same node with width and height swapped when the direction lays depth out along x
+function toDownFrameSize(node: LayoutNode, direction: LayoutDirection): LayoutNode {
+  return isHorizontalDirection(direction) ? { id: node.id, width: node.height, height: node.width } : node;
+}
+
+/**
+ * Pair each node with the position ELK computed for it.
+ * Any node ELK left without coordinates is lined up to the right of the others
+ * instead of being dropped at the origin on top of them.
+ */
+function readElkPositions(nodes: LayoutNode[], layout: ElkNode, options: LayoutOptions): PositionedNode[] {
+  const elkNodes = new Map((layout.children || []).map(child => [child.id, child]));
+  const positioned: PositionedNode[] = [];
+  const unpositioned: LayoutNode[] = [];
+
+  nodes.forEach(node => {
+    const elkNode = elkNodes.get(node.id);
+    if (elkNode?.x === undefined || elkNode.y === undefined) {
+      unpositioned.push(node);
+      return;
+    }
+    positioned.push({
+      id: node.id,
+      position: { x: elkNode.x, y: elkNode.y },
+      width: nodeWidth(node, options),
+      height: nodeHeight(node, options),
+    });
+  });
+
+  const bounds = getLayoutBounds(positioned);
+  const rowY = positioned.length > 0 ? bounds.y : options.padding.top;
+  let nextX = positioned.length > 0 ? bounds.x + bounds.width + options.siblingSpacing : options.padding.left;
+  unpositioned.forEach(node => {
+    positioned.push({
+      id: node.id,
+      position: { x: nextX, y: rowY },
+      width: nodeWidth(node, options),
+      height: nodeHeight(node, options),
+    });
+    nextX += nodeWidth(node, options) + options.nodeSpacing;
+  });
+
+  // Keep the caller's node order
+  const byId = new Map(positioned.map(node => [node.id, node]));
+  return nodes.map(node => byId.get(node.id)!);
+}
+
+// One laid-out tree, in the top-down frame
+interface TreeLayout {
+  nodes: PositionedNode[];
+  // Edge routes ELK computed, start and end included; only the layered algorithm routes edges
+  elkRoutes: Map<string, LayoutPoint[]>;
+}
+
+// ELK's route for each edge, mapped into the top-down frame
+function readElkRoutes(edges: ElkExtendedEdge[], direction: LayoutDirection): Map<string, LayoutPoint[]> {
+  const routes = new Map<string, LayoutPoint[]>();
+  edges.forEach(edge => {
+    const section = edge.sections?.[0];
+    if (!section) return;
+    const points = [section.startPoint, ...(section.bendPoints || []), section.endPoint];
+    routes.set(edge.id, points.map(point => pointToDownFrame({ x: point.x, y: point.y }, direction)));
+  });
+  return routes;
+}
+
+// Lay out a graph with the layered algorithm, which puts every node in a layer below all
+// of its parents. Returns the nodes in the top-down frame, like layoutTree.
+async function layoutDag(
+  graphId: string,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions
+): Promise<TreeLayout> {
+  // Align the nodes of each layer on the side their incoming edges arrive at
+  const alignment = getDirectionSides(options.direction).target.toUpperCase();
+  const elkGraph: ElkNode = {
+    id: graphId,
+    layoutOptions: LAYOUT_STRATEGIES.layered.elkOptions(options),
+    children: nodes.map((node) => ({
+      id: node.id,
+      width: nodeWidth(node, options),
+      height: nodeHeight(node, options),
+      // Top-align the nodes of each layer, as the tree layout does for siblings
+      layoutOptions: { "elk.alignment": alignment },
+    })),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      sources: [edge.source],
+      targets: [edge.target],
+    })),
+  };
+
+  const layout = await elk.layout(elkGraph);
+  return {
+    nodes: readElkPositions(nodes, layout, options).map(node => toDownFrame(node, options.direction)),
+    elkRoutes: readElkRoutes(layout.edges || [], options.direction),
+  };
+}
+
+// Run the selected strategy's ELK algorithm over one tree, then apply its enabled
+// post-processing passes. Graphs where some node has several parents always go through
+// the layered algorithm, and skip the passes since those assume a tree.
+// ELK works in the requested direction; the result is returned in the top-down
+// frame the passes use (see toDownFrame).
+async function layoutTree(
+  graphId: string,
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions
+): Promise<TreeLayout> {
+  if (hasMergeNodes(edges)) {
+    return layoutDag(graphId, nodes, edges, options);
+  }
+
+  const strategy = getLayoutStrategy(options.strategy);
+  const frameOptions = toDownFrameOptions(options);
+  const index = indexGraph(edges);
+  if (strategy.algorithm === "layered") {
+    const dag = await layoutDag(graphId, nodes, edges, options);
+    return { ...dag, nodes: applyLayoutPasses(dag.nodes, edges, frameOptions, index) };
+  }
+
+  const horizontal = isHorizontalDirection(options.direction);
+  // Widths across the direction, which is the height for horizontal layouts
+  const frameNodes = nodes.map(node => toDownFrameSize(node, options.direction));
+  const subtreeWidths = strategy.reserveSubtreeWidths
+    ? calculateSubtreeWidths(frameNodes, edges, frameOptions, index)
+    : new Map(frameNodes.map(node => [node.id, nodeWidth(node, frameOptions)]));
+
+  const elkGraph: ElkNode = {
+    id: graphId,
+    layoutOptions: strategy.elkOptions(options),
+    children: nodes.map((node) => horizontal ? {
+      id: node.id,
+      width: nodeWidth(node, options),
+      height: subtreeWidths.get(node.id),
+    } : {
+      id: node.id,
+      width: subtreeWidths.get(node.id),
+      height: nodeHeight(node, options),
+    }),
+    edges: edges.map((edge) => ({
+      id: edge.id,
+      sources: [edge.source],
+      targets: [edge.target],
+    })),
+  };
+
+  const layout = await elk.layout(elkGraph);
+  const laidOutNodes = readElkPositions(nodes, layout, options)
+    .map(node => toDownFrame(node, options.direction));
+
+  // mrtree only draws stubs between the widened nodes, so its edges are routed afresh afterwards
+  return { nodes: applyLayoutPasses(laidOutNodes, edges, frameOptions, index), elkRoutes: new Map() };
+}
+
+/**
+ * Lay out a flow graph: the main tree first, then the sink node centred after it
+ * in the layout direction, then the sink's own output tree hanging from the sink.
+ * Pinned nodes are put back at their pinned positions last, with the rest moved clear of them,
+ * and edges are routed between the final positions.
+ * Throws if ELK fails; callers decide on a fallback.
+ * @param nodes - Nodes to position; only id, size and pinned position are read
+ * @param edges - Edges connecting the nodes
+ * @param input - Layout options; anything omitted falls back to DEFAULT_LAYOUT_OPTIONS
+ * @returns Top-left positions keyed by node id, the bounds they cover and each edge's bend points
+ */
+export async function layoutGraph(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  input?: LayoutOptionsInput
+): Promise<LayoutResult> {
+  const options = resolveLayoutOptions(input);
+  const { sinkNodeId, direction } = options;
+  // Everything below works top-down; positions are mapped to the direction at the end
+  const frameOptions = toDownFrameOptions(options);
+
+  // Separate main tree nodes from output tree nodes
+  const sinkNode = nodes.find(node => node.id === sinkNodeId);
+  const outputTreeNodeIds = new Set(sinkNodeId === null ? [] : getDescendantIds(sinkNodeId, edges));
+  const outputTreeNodes = nodes.filter(node => outputTreeNodeIds.has(node.id));
+  const mainTreeNodes = nodes.filter(node =>
+    node.id !== sinkNodeId && !outputTreeNodeIds.has(node.id)
+  );
+
+  // Layout main tree (excluding connections to the sink)
+  const mainTreeEdges = edges.filter(edge =>
+    edge.target !== sinkNodeId &&
+    !outputTreeNodeIds.has(edge.source) &&
+    !outputTreeNodeIds.has(edge.target)
+  );
+  const mainTree = await layoutTree("main-root", mainTreeNodes, mainTreeEdges, options);
+  const finalMainNodes = mainTree.nodes;
+  const elkRoutes = new Map(mainTree.elkRoutes);
+
+  // Position the sink below the main tree (in the top-down frame)
+  const mainTreeBounds = finalMainNodes.length > 0 ? {
+    minX: Math.min(...finalMainNodes.map(node => node.position.x)),
+    maxX: Math.max(...finalMainNodes.map(node => node.position.x + node.width)),
+    maxY: Math.max(...finalMainNodes.map(node => node.position.y + node.height))
+  } : { minX: 0, maxX: frameOptions.defaultNodeWidth, maxY: 0 };
+
+  let finalOutputNodes: PositionedNode[] = [];
+  if (sinkNode) {
+    const frameSink = toDownFrameSize(sinkNode, direction);
+    const sinkPosition = {
+      x: (mainTreeBounds.minX + mainTreeBounds.maxX) / 2 - nodeWidth(frameSink, frameOptions) / 2,
+      y: mainTreeBounds.maxY + options.sinkSpacing,
+    };
+
+    if (outputTreeNodes.length > 0) {
+      // Layout the output tree, then shift it so the sink lands where we placed it
+      const outputTreeEdges = edges.filter(edge =>
+        (edge.source === sinkNodeId || outputTreeNodeIds.has(edge.source)) &&
+        outputTreeNodeIds.has(edge.target)
+      );
+      const outputTree = await layoutTree(
+        "output-root",
+        [sinkNode, ...outputTreeNodes],
+        outputTreeEdges,
+        options
+      );
+      const outputLaidOutNodes = outputTree.nodes;
+      // Shifting the tree doesn't matter to its routes, which are synced to the final positions
+      outputTree.elkRoutes.forEach((route, edgeId) => elkRoutes.set(edgeId, route));
+
+      const elkSink = outputLaidOutNodes.find(node => node.id === sinkNodeId)!;
+      const offsetX = sinkPosition.x - elkSink.position.x;
+      const offsetY = sinkPosition.y - elkSink.position.y;
+      finalOutputNodes = outputLaidOutNodes.map(node => ({
+        ...node,
+        position: { x: node.position.x + offsetX, y: node.position.y + offsetY },
+      }));
+    } else {
+      finalOutputNodes = [{
+        id: sinkNode.id,
+        position: sinkPosition,
+        width: nodeWidth(frameSink, frameOptions),
+        height: nodeHeight(frameSink, frameOptions),
+      }];
+    }
+  }
+
+  // Pinned nodes go back where the user put them, and everything else makes room
+  const pinnedPositions = new Map<string, LayoutPoint>();
+  nodes.forEach(node => {
+    if (!node.pinnedPosition) return;
+    const pinned = toDownFrame({
+      id: node.id,
+      position: node.pinnedPosition,
+      width: nodeWidth(node, options),
+      height: nodeHeight(node, options),
+    }, direction);
+    pinnedPositions.set(node.id, pinned.position);
+  });
+  const frameNodes = placePinnedNodes([...finalMainNodes, ...finalOutputNodes], pinnedPositions, frameOptions);
+  const allNodes = frameNodes.map(node => fromDownFrame(node, direction));
+  const positions: LayoutResult["positions"] = {};
+  allNodes.forEach(node => {
+    positions[node.id] = node.position;
+  });
+
+  // Routes go last, so they follow every node the passes and pins moved
+  const edgeRoutes: LayoutResult["edgeRoutes"] = {};
+  routeEdges(frameNodes, edges, elkRoutes, frameOptions).forEach((bends, edgeId) => {
+    edgeRoutes[edgeId] = bends.map(point => pointFromDownFrame(point, direction));
+  });
+  return { positions, bounds: getLayoutBounds(allNodes), edgeRoutes };
+}
@@ -0,0 +1,48 @@
+import { LAYOUT_STRATEGIES } from "./strategies";
+import type { LayoutOptions, LayoutOptionsInput } from "./types";
+
+export const DEFAULT_LAYOUT_OPTIONS: LayoutOptions = {
+  direction: "DOWN",
+  strategy: "mrtree",
+  strategySettings: {
+    mrtree: LAYOUT_STRATEGIES.mrtree.defaultSettings,
+    layered: LAYOUT_STRATEGIES.layered.defaultSettings,
+    "compact-tree": LAYOUT_STRATEGIES["compact-tree"].defaultSettings,
+  },
+  edgeRouting: "POLYLINE",
+  defaultNodeWidth: 500,
+  defaultNodeHeight: 300,
+  nodeSpacing: 50,
+  edgeSpacing: 20,
+  edgeNodeSpacing: 30,
+  layerEdgeSpacing: 40,
+  padding: { top: 50, left: 50, bottom: 50, right: 50 },
+  siblingSpacing: 100,
+  sinkSpacing: 100,
+  maxVerticalGap: 50,
+  sinkNodeId: "end-node",
+  passes: LAYOUT_STRATEGIES.mrtree.passes,
+};
+
+/**
+ * Fill in any options the caller left out with the defaults.
+ * Nested objects (padding, passes, strategy settings) are merged key by key, and
+ * passes the caller didn't mention follow the chosen strategy.
+ */
+export function resolveLayoutOptions(input: LayoutOptionsInput = {}): LayoutOptions {
+  const strategy = input.strategy ?? DEFAULT_LAYOUT_OPTIONS.strategy;
+  const defaultSettings = DEFAULT_LAYOUT_OPTIONS.strategySettings;
+  const inputSettings = input.strategySettings ?? {};
+  return {
+    ...DEFAULT_LAYOUT_OPTIONS,
+    ...input,
+    strategy,
+    strategySettings: {
+      mrtree: { ...defaultSettings.mrtree, ...inputSettings.mrtree },
+      layered: { ...defaultSettings.layered, ...inputSettings.layered },
+      "compact-tree": { ...defaultSettings["compact-tree"], ...inputSettings["compact-tree"] },
+    },
+    padding: { ...DEFAULT_LAYOUT_OPTIONS.padding, ...input.padding },
+    passes: { ...LAYOUT_STRATEGIES[strategy].passes, ...input.passes },
+  };
+}
@@ -0,0 +1,251 @@
+import { computeBottomUp, getDescendantIds, indexGraph, type GraphIndex } from "./graph";
+import type { LayoutEdge, LayoutNode, LayoutOptions, LayoutPoint, PositionedNode } from "./types";
+
+// Nodes by id, for passes that look nodes up while moving them
+function mapNodesById(nodes: PositionedNode[]): Map<string, PositionedNode> {
+  return new Map(nodes.map(node => [node.id, node]));
+}
+
+// The nodes in their original order, with the versions the pass moved
+function inOriginalOrder(nodes: PositionedNode[], byId: Map<string, PositionedNode>): PositionedNode[] {
+  return nodes.map(node => byId.get(node.id)!);
+}
+
+function moveNode(byId: Map<string, PositionedNode>, nodeId: string, position: Partial<LayoutPoint>): void {
+  const node = byId.get(nodeId);
+  if (node) byId.set(nodeId, { ...node, position: { ...node.position, ...position } });
+}
+
+// Calculate subtree widths for ELK positioning
+export function calculateSubtreeWidths(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions,
+  index: GraphIndex = indexGraph(edges)
+): Map<string, number> {
+  const ownWidths = new Map(nodes.map(node => [node.id, node.width || options.defaultNodeWidth]));
+  const ownWidth = (nodeId: string) => ownWidths.get(nodeId) ?? options.defaultNodeWidth;
+
+  // A merge node is only counted under its first parent, so shared subtrees aren't double-counted.
+  // Each node is measured once, after its children.
+  const subtreeWidths = new Map<string, number>();
+  computeBottomUp(nodes.map(node => node.id), index.treeChildren, (nodeId, children) => {
+    if (children.length === 0) {
+      return ownWidth(nodeId); // Leaf node uses its own width
+    }
+
+    // Total width needed for all children side by side; a child met again on its own path
+    // (a cycle) counts as a leaf
+    const totalChildWidth = children.reduce(
+      (sum, childId) => sum + (subtreeWidths.get(childId) ?? ownWidth(childId)),
+      0
+    );
+    const spacingBetweenChildren = (children.length - 1) * options.siblingSpacing;
+    const minSubtreeWidth = totalChildWidth + spacingBetweenChildren;
+
+    // Node should be at least as wide as its subtree needs
+    return Math.max(ownWidth(nodeId), minSubtreeWidth);
+  }, subtreeWidths);
+
+  return new Map(nodes.map(node => [node.id, subtreeWidths.get(node.id)!]));
+}
+
+// Align sibling nodes at their top edges
+export function alignSiblingsAtTop(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  index: GraphIndex = indexGraph(edges)
+): PositionedNode[] {
+  if (nodes.length === 0) return nodes;
+  const byId = mapNodesById(nodes);
+
+  // For each parent that has multiple children, align those children at their top edges
+  index.children.forEach((childrenIds) => {
+    if (childrenIds.length < 2) return;
+    const childNodes = childrenIds
+      .map(childId => byId.get(childId))
+      .filter(node => node !== undefined);
+    if (childNodes.length < 2) return;
+
+    // Align all sibling nodes to the topmost Y position among them
+    const topY = childNodes.reduce((top, node) => Math.min(top, node.position.y), Infinity);
+    childNodes.forEach(childNode => moveNode(byId, childNode.id, { y: topY }));
+  });
+
+  return inOriginalOrder(nodes, byId);
+}
+
+// Center parent nodes over their children (preserves ELK spacing)
+export function centerParentsOverChildren(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  index: GraphIndex = indexGraph(edges)
+): PositionedNode[] {
+  const byId = mapNodesById(nodes);
+
+  // Parents sorted by height, deepest first, so each one is centred over children that
+  // have already been centred themselves
+  const parentIds = Array.from(index.children.keys())
+    .sort((a, b) => index.height(a) - index.height(b));
+
+  // Center each parent over its children, but DON'T move the children
+  // This preserves ELK's spacing between branches while centering parents visually
+  parentIds.forEach(parentId => {
+    const parent = byId.get(parentId);
+    if (!parent) return;
+    let childrenLeftmost = Infinity;
+    let childrenRightmost = -Infinity;
+    index.children.get(parentId)!.forEach(childId => {
+      const child = byId.get(childId);
+      if (!child) return;
+      childrenLeftmost = Math.min(childrenLeftmost, child.position.x);
+      childrenRightmost = Math.max(childrenRightmost, child.position.x + child.width);
+    });
+    if (childrenLeftmost === Infinity) return;
+
+    const childrenCenter = (childrenLeftmost + childrenRightmost) / 2;
+    moveNode(byId, parentId, { x: childrenCenter - parent.width / 2 });
+  });
+
+  return inOriginalOrder(nodes, byId);
+}
+
+/**
+ * Enhanced centering logic specifically for skewed/asymmetric graphs.
+ * This function centers root nodes over their entire subtree, regardless of asymmetry.
+ * @param nodes - Array of positioned nodes
+ * @param edges - Array of edges connecting the nodes
+ * @param options - Layout options; the sink node is never treated as a root
+ * @returns Adjusted array of nodes with updated positions
+ */
+export function centerInputNodeForSkewedGraph(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions,
+  index: GraphIndex = indexGraph(edges)
+): PositionedNode[] {
+  const byId = mapNodesById(nodes);
+
+  // Root nodes have no incoming edges; the sink never counts as one
+  const rootNodes = nodes.filter(node => !index.parents.has(node.id) && node.id !== options.sinkNodeId);
+
+  // Center each root over the overall bounds of its entire subtree
+  rootNodes.forEach(rootNode => {
+    let leftmostX = Infinity;
+    let rightmostX = -Infinity;
+    getDescendantIds(rootNode.id, edges, index.children).forEach(nodeId => {
+      const node = byId.get(nodeId);
+      if (!node) return;
+      leftmostX = Math.min(leftmostX, node.position.x);
+      rightmostX = Math.max(rightmostX, node.position.x + node.width);
+    });
+    if (leftmostX === Infinity) return;
+
+    const subtreeCenterX = (leftmostX + rightmostX) / 2;
+    moveNode(byId, rootNode.id, { x: subtreeCenterX - rootNode.width / 2 });
+  });
+
+  return inOriginalOrder(nodes, byId);
+}
+
+// Constrain child nodes to be within reasonable vertical distance from parent.
+// Merge nodes are measured from their lowest parent so they always stay below all of them.
+export function constrainChildrenToParent(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions,
+  index: GraphIndex = indexGraph(edges)
+): PositionedNode[] {
+  const byId = mapNodesById(nodes);
+
+  // For each child, in edge order, check if it is too far from its parents and adjust if needed
+  index.parents.forEach((parentIds, childId) => {
+    const childNode = byId.get(childId);
+    if (!childNode) return;
+    let parentBottom = -Infinity;
+    parentIds.forEach(parentId => {
+      const parent = byId.get(parentId);
+      if (parent) parentBottom = Math.max(parentBottom, parent.position.y + parent.height);
+    });
+    if (parentBottom === -Infinity) return;
+
+    // If child is too far from parent, move it closer
+    if (childNode.position.y - parentBottom > options.maxVerticalGap) {
+      moveNode(byId, childId, { y: parentBottom + options.maxVerticalGap });
+    }
+  });
+
+  return inOriginalOrder(nodes, byId);
+}
+
+// Run the post-processing passes enabled in the options, in their fixed order.
+// The edges are indexed once and the index shared by every pass.
+export function applyLayoutPasses(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  options: LayoutOptions,
+  index: GraphIndex = indexGraph(edges)
+): PositionedNode[] {
+  const { passes } = options;
+  let result = nodes;
+  if (passes.alignSiblings) result = alignSiblingsAtTop(result, edges, index);
+  if (passes.centerParents) result = centerParentsOverChildren(result, edges, index);
+  if (passes.centerSkewedRoots) result = centerInputNodeForSkewedGraph(result, edges, options, index);
+  if (passes.constrainChildren) result = constrainChildrenToParent(result, edges, options, index);
+  return result;
+}
+
+/**
+ * Move pinned nodes to their pinned positions and push the other nodes clear of them.
+ * Works in the top-down frame: whenever an unpinned node overlaps a pinned one, it and
+ * every unpinned node whose left edge is at or beyond its own are shifted right together,
+ * so what lies to the right keeps its shape and nothing ends up overlapping.
+ * @param nodes - Laid-out nodes
+ * @param pinnedPositions - Top-left positions of the pinned nodes, keyed by node id
+ * @param options - Layout options; nodeSpacing is kept clear around pinned nodes
+ */
+export function placePinnedNodes(
+  nodes: PositionedNode[],
+  pinnedPositions: Map<string, LayoutPoint>,
+  options: LayoutOptions
+): PositionedNode[] {
+  if (pinnedPositions.size === 0) return nodes;
+
+  const placedNodes = nodes.map(node => {
+    const pinned = pinnedPositions.get(node.id);
+    return pinned ? { ...node, position: { ...pinned } } : { ...node, position: { ...node.position } };
+  });
+  const pinnedNodes = placedNodes.filter(node => pinnedPositions.has(node.id));
+  const freeNodes = placedNodes.filter(node => !pinnedPositions.has(node.id));
+  const spacing = options.nodeSpacing;
+
+  const overlapsPinned = (node: PositionedNode) => pinnedNodes.find(pinned =>
+    node.position.x < pinned.position.x + pinned.width + spacing &&
+    pinned.position.x < node.position.x + node.width + spacing &&
+    node.position.y < pinned.position.y + pinned.height + spacing &&
+    pinned.position.y < node.position.y + node.height + spacing
+  );
+
+  // Every shift clears a free node past a pinned one, so this settles within free × pinned rounds
+  for (let round = 0; round <= freeNodes.length * pinnedNodes.length; round++) {
+    const byLeftEdge = [...freeNodes].sort((a, b) => a.position.x - b.position.x);
+    let blocked: PositionedNode | undefined;
+    let pinned: PositionedNode | undefined;
+    for (const node of byLeftEdge) {
+      pinned = overlapsPinned(node);
+      if (pinned) {
+        blocked = node;
+        break;
+      }
+    }
+    if (!blocked || !pinned) break;
+
+    const threshold = blocked.position.x;
+    const shift = pinned.position.x + pinned.width + spacing - threshold;
+    freeNodes.forEach(node => {
+      if (node.position.x >= threshold) node.position.x += shift;
+    });
+  }
+
+  return placedNodes;
+}
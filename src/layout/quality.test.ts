@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { checkLayoutQuality } from "./quality";
+import type { LayoutEdge, PositionedNode } from "./types";
+
+function node(id: string, x: number, y: number, width = 100, height = 50): PositionedNode {
+  return { id, position: { x, y }, width, height };
+}
+
+function edge(source: string, target: string): LayoutEdge {
+  return { id: `${source}-${target}`, source, target };
+}
+
+// A parent centred over two top-aligned children
+const TREE: PositionedNode[] = [node("p", 75, 0), node("a", 0, 100), node("b", 150, 100)];
+const TREE_EDGES = [edge("p", "a"), edge("p", "b")];
+
+describe("checkLayoutQuality", () => {
+  it("passes a tidy tree", () => {
+    expect(checkLayoutQuality(TREE, TREE_EDGES)).toEqual([]);
+  });
+
+  it("reports overlapping nodes", () => {
+    const violations = checkLayoutQuality([node("a", 0, 0), node("b", 60, 20)], []);
+    expect(violations).toEqual([{
+      kind: "node-overlap",
+      message: '"a" and "b" overlap by 40×30px.',
+      nodeIds: ["a", "b"],
+      amount: 30,
+    }]);
+  });
+
+  it("ignores overlaps within the tolerance", () => {
+    expect(checkLayoutQuality([node("a", 0, 0), node("b", 99.5, 0)], [])).toEqual([]);
+  });
+
+  it("reports edges drawn through other nodes", () => {
+    const nodes = [node("p", 0, 0), node("in-the-way", 0, 100), node("c", 0, 200)];
+    const violations = checkLayoutQuality(nodes, [edge("p", "c")]);
+    expect(violations.map(v => [v.kind, v.edgeId, v.nodeIds])).toEqual([
+      ["edge-through-node", "p-c", ["in-the-way"]],
+    ]);
+  });
+
+  it("checks routed edges along their bend points", () => {
+    const nodes = [node("p", 0, 0), node("in-the-way", 0, 100), node("c", 0, 200)];
+    // Around the right of the node in the way, then back to the top of the target
+    const detour = { "p-c": [{ x: 50, y: 75 }, { x: 150, y: 75 }, { x: 150, y: 175 }, { x: 50, y: 175 }] };
+    expect(checkLayoutQuality(nodes, [edge("p", "c")], { edgeRoutes: detour })).toEqual([]);
+
+    const through = { "p-c": [{ x: 50, y: 75 }, { x: 50, y: 175 }] };
+    expect(checkLayoutQuality(nodes, [edge("p", "c")], { edgeRoutes: through }).map(v => v.kind))
+      .toEqual(["edge-through-node"]);
+  });
+
+  it("maps routes into the layout direction", () => {
+    // Depth runs along x; the route dodges below the node in the way
+    const nodes = [node("p", 0, 0, 50, 50), node("in-the-way", 100, 0, 50, 50), node("c", 200, 0, 50, 50)];
+    const detour = { "p-c": [{ x: 75, y: 25 }, { x: 75, y: 90 }, { x: 175, y: 90 }, { x: 175, y: 25 }] };
+    expect(checkLayoutQuality(nodes, [edge("p", "c")], { direction: "RIGHT" }).map(v => v.kind))
+      .toEqual(["edge-through-node"]);
+    expect(checkLayoutQuality(nodes, [edge("p", "c")], { direction: "RIGHT", edgeRoutes: detour })).toEqual([]);
+  });
+
+  it("reports misaligned siblings and off-centre parents", () => {
+    const nodes = [node("p", 0, 0), node("a", 0, 100), node("b", 150, 120)];
+    const violations = checkLayoutQuality(nodes, TREE_EDGES);
+    expect(violations.map(v => [v.kind, v.amount])).toEqual([
+      ["sibling-misalignment", 20],
+      ["parent-off-center", 75],
+    ]);
+  });
+
+  it("skips centring for the nodes it is told to", () => {
+    const nodes = [node("p", 0, 0), node("a", 0, 100), node("b", 150, 100)];
+    expect(checkLayoutQuality(nodes, TREE_EDGES, { skipCenteringFor: ["p"] })).toEqual([]);
+  });
+
+  it("judges alignment across the layout direction", () => {
+    // The same tidy tree turned on its side: depth runs along x
+    const nodes = [node("p", 0, 75, 50, 100), node("a", 100, 0, 50, 100), node("b", 100, 150, 50, 100)];
+    expect(checkLayoutQuality(nodes, TREE_EDGES, { direction: "RIGHT" })).toEqual([]);
+    expect(checkLayoutQuality(nodes, TREE_EDGES).map(v => v.kind)).toContain("parent-off-center");
+  });
+});
@@ -0,0 +1,200 @@
+import { getEdgeEndpoints, pointToDownFrame, toDownFrame } from "./direction";
+import { buildChildrenMap } from "./graph";
+import type { LayoutDirection, LayoutEdge, LayoutPoint, PositionedNode } from "./types";
+
+export type LayoutViolationKind =
+  | "node-overlap"
+  | "edge-through-node"
+  | "sibling-misalignment"
+  | "parent-off-center";
+
+export interface LayoutViolation {
+  kind: LayoutViolationKind;
+  message: string;
+  nodeIds: string[];
+  edgeId?: string;
+  // Size of the problem in pixels: overlap depth, misalignment or centring error
+  amount: number;
+}
+
+export interface LayoutQualityOptions {
+  // Differences up to this many pixels are treated as rounding noise
+  tolerance: number;
+  // Node ids whose centring isn't checked, e.g. roots that are deliberately
+  // centred over their whole subtree rather than their direct children
+  skipCenteringFor: string[];
+  // Direction the graph was laid out in; alignment and centring are judged across it
+  direction: LayoutDirection;
+  // Bend points per edge id, as in LayoutResult.edgeRoutes; edges without one are straight
+  edgeRoutes: Record<string, LayoutPoint[]>;
+}
+
+const DEFAULT_QUALITY_OPTIONS: LayoutQualityOptions = {
+  tolerance: 1,
+  skipCenteringFor: [],
+  direction: "DOWN",
+  edgeRoutes: {},
+};
+
+// Liang–Barsky clip: does the segment cross the inside of the rectangle?
+export function segmentIntersectsRect(from: LayoutPoint, to: LayoutPoint, node: PositionedNode, inset: number): boolean {
+  const left = node.position.x + inset;
+  const right = node.position.x + node.width - inset;
+  const top = node.position.y + inset;
+  const bottom = node.position.y + node.height - inset;
+  if (left >= right || top >= bottom) return false;
+
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  let t0 = 0;
+  let t1 = 1;
+  const clips: [number, number][] = [
+    [-dx, from.x - left],
+    [dx, right - from.x],
+    [-dy, from.y - top],
+    [dy, bottom - from.y],
+  ];
+  for (const [p, q] of clips) {
+    if (p === 0) {
+      if (q < 0) return false;
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return false;
+      t0 = Math.max(t0, t);
+    } else {
+      if (t < t0) return false;
+      t1 = Math.min(t1, t);
+    }
+  }
+  return t0 < t1;
+}
+
+function findNodeOverlaps(nodes: PositionedNode[], tolerance: number): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  // Sweep along x so only nodes that share a horizontal span get compared
+  const sorted = [...nodes].sort((a, b) => a.position.x - b.position.x);
+  sorted.forEach((a, i) => {
+    for (let j = i + 1; j < sorted.length; j++) {
+      const b = sorted[j];
+      if (b.position.x >= a.position.x + a.width - tolerance) break;
+      const overlapX = Math.min(a.position.x + a.width, b.position.x + b.width) - Math.max(a.position.x, b.position.x);
+      const overlapY = Math.min(a.position.y + a.height, b.position.y + b.height) - Math.max(a.position.y, b.position.y);
+      if (overlapX > tolerance && overlapY > tolerance) {
+        violations.push({
+          kind: "node-overlap",
+          message: `"${a.id}" and "${b.id}" overlap by ${Math.round(overlapX)}×${Math.round(overlapY)}px.`,
+          nodeIds: [a.id, b.id],
+          amount: Math.min(overlapX, overlapY),
+        });
+      }
+    }
+  });
+  return violations;
+}
+
+function findEdgesThroughNodes(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  nodesById: Map<string, PositionedNode>,
+  options: LayoutQualityOptions
+): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  edges.forEach(edge => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return;
+    const [from, to] = getEdgeEndpoints(source, target);
+    const bends = (options.edgeRoutes[edge.id] || []).map(point => pointToDownFrame(point, options.direction));
+    const points = [from, ...bends, to];
+    nodes.forEach(node => {
+      if (node.id === edge.source || node.id === edge.target) return;
+      const crosses = points.slice(1).some((point, i) => segmentIntersectsRect(points[i], point, node, options.tolerance));
+      if (crosses) {
+        violations.push({
+          kind: "edge-through-node",
+          message: `Edge "${edge.id}" passes through "${node.id}".`,
+          nodeIds: [node.id],
+          edgeId: edge.id,
+          amount: 0,
+        });
+      }
+    });
+  });
+  return violations;
+}
+
+function findTreeViolations(
+  edges: LayoutEdge[],
+  nodesById: Map<string, PositionedNode>,
+  options: LayoutQualityOptions
+): LayoutViolation[] {
+  const violations: LayoutViolation[] = [];
+  const parentCount = new Map<string, number>();
+  edges.forEach(edge => parentCount.set(edge.target, (parentCount.get(edge.target) || 0) + 1));
+  const skipCentering = new Set(options.skipCenteringFor);
+
+  buildChildrenMap(edges).forEach((childIds, parentId) => {
+    const parent = nodesById.get(parentId);
+    // Merge nodes belong to several parents, so neither rule applies to them
+    const children = childIds
+      .filter(id => parentCount.get(id) === 1)
+      .map(id => nodesById.get(id))
+      .filter(node => node !== undefined) as PositionedNode[];
+    if (!parent || children.length === 0) return;
+
+    if (children.length > 1) {
+      const tops = children.map(child => child.position.y);
+      const spread = Math.max(...tops) - Math.min(...tops);
+      if (spread > options.tolerance) {
+        violations.push({
+          kind: "sibling-misalignment",
+          message: `Children of "${parentId}" are misaligned by ${Math.round(spread)}px.`,
+          nodeIds: children.map(child => child.id),
+          amount: spread,
+        });
+      }
+    }
+
+    if (children.length === childIds.length && !skipCentering.has(parentId)) {
+      const left = Math.min(...children.map(child => child.position.x));
+      const right = Math.max(...children.map(child => child.position.x + child.width));
+      const error = Math.abs(parent.position.x + parent.width / 2 - (left + right) / 2);
+      if (error > options.tolerance) {
+        violations.push({
+          kind: "parent-off-center",
+          message: `"${parentId}" is ${Math.round(error)}px off the centre of its children.`,
+          nodeIds: [parentId],
+          amount: error,
+        });
+      }
+    }
+  });
+  return violations;
+}
+
+/**
+ * Check a laid-out graph for visual defects: overlapping nodes, edges drawn through
+ * nodes, siblings not top-aligned and tree parents not centred over their children.
+ * For other directions "top" and "over" are read along the layout direction.
+ * @param nodes - Nodes with final positions and sizes
+ * @param edges - Edges between them, drawn through their routes' bend points
+ * @param input - Tolerance, nodes to skip, direction and edge routes; defaults to 1px, none,
+ * DOWN and no routes, i.e. every edge drawn straight
+ */
+export function checkLayoutQuality(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  input: Partial<LayoutQualityOptions> = {}
+): LayoutViolation[] {
+  const options = { ...DEFAULT_QUALITY_OPTIONS, ...input };
+  // Checks are written for top-down layouts; other directions are mapped into that frame
+  const frameNodes = nodes.map(node => toDownFrame(node, options.direction));
+  const nodesById = new Map(frameNodes.map(node => [node.id, node]));
+  return [
+    ...findNodeOverlaps(frameNodes, options.tolerance),
+    ...findEdgesThroughNodes(frameNodes, edges, nodesById, options),
+    ...findTreeViolations(edges, nodesById, options),
+  ];
+}
@@ -0,0 +1,213 @@
+import { segmentIntersectsRect } from "./quality";
+import type { LayoutEdge, LayoutEdgeRouting, LayoutOptions, LayoutPoint, PositionedNode } from "./types";
+
+// Coordinates closer than this count as the same line
+const ROUTE_EPSILON = 0.5;
+// Columns tried per edge when looking for a way around the nodes in its path
+const MAX_DETOUR_COLUMNS = 64;
+
+// Nodes bucketed into horizontal bands as tall as the tallest node, each band sorted by the
+// nodes' left sides, so a segment is only tested against the nodes next to it
+interface NodeIndex {
+  bandHeight: number;
+  bands: Map<number, PositionedNode[]>;
+  maxWidth: number;
+}
+
+function lerp(from: number, to: number, t: number): number {
+  return from + (to - from) * t;
+}
+
+/**
+ * Move an ELK route to where the post-processing passes left its end nodes.
+ * ELK's own start and end points are mapped onto the new anchors; bend points in between
+ * follow the source or the target depending on how far along the edge they sit, and the
+ * depth axis is stretched to the new gap. Orthogonal routes move each vertical run as a
+ * whole, so every segment stays horizontal or vertical.
+ * @param route - ELK's points, start and end included, in the top-down frame
+ * @returns The bend points between the new anchors
+ */
+function syncElkRoute(
+  route: LayoutPoint[],
+  from: LayoutPoint,
+  to: LayoutPoint,
+  routing: LayoutEdgeRouting
+): LayoutPoint[] {
+  const start = route[0];
+  const end = route[route.length - 1];
+  const depth = end.y - start.y;
+  const progress = (point: LayoutPoint) =>
+    Math.abs(depth) < ROUTE_EPSILON ? 0 : Math.min(1, Math.max(0, (point.y - start.y) / depth));
+  const mapY = (point: LayoutPoint) => lerp(from.y, to.y, progress(point));
+  const shiftX = (t: number) => lerp(from.x - start.x, to.x - end.x, t);
+
+  if (routing === "POLYLINE") {
+    return route.slice(1, -1).map(point => ({ x: point.x + shiftX(progress(point)), y: mapY(point) }));
+  }
+
+  // Split the route into vertical runs: consecutive points that share an x
+  const runs: number[][] = [];
+  route.forEach((point, index) => {
+    const run = runs[runs.length - 1];
+    if (run && Math.abs(route[run[0]].x - point.x) < ROUTE_EPSILON) {
+      run.push(index);
+    } else {
+      runs.push([index]);
+    }
+  });
+  // A single run is a straight drop, which can't reach a target that moved sideways
+  if (runs.length === 1) return [];
+  const synced = route.map(point => ({ ...point }));
+  runs.forEach(run => {
+    const shift = run[0] === 0
+      ? from.x - start.x
+      : run[run.length - 1] === route.length - 1
+        ? to.x - end.x
+        : shiftX(run.reduce((sum, index) => sum + progress(route[index]), 0) / run.length);
+    run.forEach(index => {
+      synced[index] = { x: route[index].x + shift, y: mapY(route[index]) };
+    });
+  });
+  return synced.slice(1, -1);
+}
+
+// Orthogonal route for an edge ELK didn't route: down from the source, across in the
+// gap just above the target, then down into it. Channels close to the target keep long
+// edges, like the links from leaves to the end node, in the empty space below their source.
+function elbowRoute(from: LayoutPoint, to: LayoutPoint, options: LayoutOptions): LayoutPoint[] {
+  if (Math.abs(from.x - to.x) < ROUTE_EPSILON || to.y <= from.y) return [];
+  const channelY = to.y - Math.min((to.y - from.y) / 2, options.maxVerticalGap / 2);
+  return [{ x: from.x, y: channelY }, { x: to.x, y: channelY }];
+}
+
+function indexNodes(nodes: PositionedNode[]): NodeIndex {
+  const bandHeight = Math.max(1, ...nodes.map(node => node.height));
+  const bands = new Map<number, PositionedNode[]>();
+  nodes.forEach(node => {
+    const last = Math.floor((node.position.y + node.height) / bandHeight);
+    for (let band = Math.floor(node.position.y / bandHeight); band <= last; band++) {
+      if (!bands.has(band)) bands.set(band, []);
+      bands.get(band)!.push(node);
+    }
+  });
+  bands.forEach(band => band.sort((a, b) => a.position.x - b.position.x));
+  return { bandHeight, bands, maxWidth: Math.max(0, ...nodes.map(node => node.width)) };
+}
+
+// Nodes other than the edge's own ends that the line through the points cuts through
+function findBlockingNodes(points: LayoutPoint[], index: NodeIndex, endIds: string[]): PositionedNode[] {
+  const blocking = new Set<PositionedNode>();
+  points.slice(1).forEach((to, i) => {
+    const from = points[i];
+    const dy = to.y - from.y;
+    const xAt = (y: number) => lerp(from.x, to.x, Math.min(1, Math.max(0, (y - from.y) / dy)));
+    const firstBand = Math.floor(Math.min(from.y, to.y) / index.bandHeight);
+    const lastBand = Math.floor(Math.max(from.y, to.y) / index.bandHeight);
+    for (let band = firstBand; band <= lastBand; band++) {
+      const bandNodes = index.bands.get(band);
+      if (!bandNodes) continue;
+      // The part of the segment inside the band
+      const xs = Math.abs(dy) < ROUTE_EPSILON
+        ? [from.x, to.x]
+        : [xAt(band * index.bandHeight), xAt((band + 1) * index.bandHeight)];
+      const minX = Math.min(...xs) - index.maxWidth;
+      const maxX = Math.max(...xs);
+      // Binary search for the first node that can reach the segment from the left
+      let low = 0;
+      let high = bandNodes.length;
+      while (low < high) {
+        const middle = (low + high) >> 1;
+        if (bandNodes[middle].position.x < minX) low = middle + 1;
+        else high = middle;
+      }
+      for (let j = low; j < bandNodes.length && bandNodes[j].position.x <= maxX; j++) {
+        const node = bandNodes[j];
+        if (!endIds.includes(node.id) && segmentIntersectsRect(from, to, node, ROUTE_EPSILON)) blocking.add(node);
+      }
+    }
+  });
+  return [...blocking];
+}
+
+// Route around the nodes in an edge's way, or undefined if there is none: the elbow if that is
+// clear, else down a little from the source, across to a free column beside the blocking nodes,
+// down it to the elbow's channel and across to the target. The columns tried start with those
+// beside the nodes under the source, then those beside whatever blocked the previous tries.
+function detourRoute(
+  from: LayoutPoint,
+  to: LayoutPoint,
+  index: NodeIndex,
+  endIds: string[],
+  options: LayoutOptions
+): LayoutPoint[] | undefined {
+  if (to.y <= from.y) return undefined;
+  const isClear = (bends: LayoutPoint[]) => findBlockingNodes([from, ...bends, to], index, endIds).length === 0;
+  const elbow = elbowRoute(from, to, options);
+  if (isClear(elbow)) return elbow;
+
+  const channelY = to.y - Math.min((to.y - from.y) / 2, options.maxVerticalGap / 2);
+  const below = findBlockingNodes([from, { x: from.x, y: channelY }], index, endIds);
+  if (below.length === 0) return undefined;
+  const firstTop = Math.min(...below.map(node => node.position.y));
+  const turnY = from.y + Math.max(0, Math.min((firstTop - from.y) / 2, options.maxVerticalGap / 2));
+
+  const clearance = options.nodeSpacing / 2;
+  const sideColumns = (nodes: PositionedNode[]) =>
+    nodes.flatMap(node => [node.position.x - clearance, node.position.x + node.width + clearance]);
+  const tried = new Set<number>();
+  const columns = sideColumns(below);
+  while (columns.length > 0 && tried.size < MAX_DETOUR_COLUMNS) {
+    // Shortest detour first
+    columns.sort((a, b) => Math.abs(a - from.x) + Math.abs(a - to.x) - Math.abs(b - from.x) - Math.abs(b - to.x));
+    const x = columns.shift()!;
+    if (tried.has(x)) continue;
+    tried.add(x);
+    const bends = [{ x: from.x, y: turnY }, { x, y: turnY }, { x, y: channelY }, { x: to.x, y: channelY }];
+    const blocking = findBlockingNodes([from, ...bends, to], index, endIds);
+    if (blocking.length === 0) return bends;
+    columns.push(...sideColumns(blocking));
+  }
+  return undefined;
+}
+
+/**
+ * Bend points for every edge in the finished layout, in the top-down frame.
+ * Edges run from the bottom centre of the source to the top centre of the target.
+ * Routes ELK computed are moved along with the nodes the passes moved; other edges are
+ * straight, or elbowed when the routing is orthogonal. Edges that would then cut through a node
+ * are routed around it where a way around can be found.
+ * @param nodes - Final positions in the top-down frame
+ * @param edges - Every edge to route
+ * @param elkRoutes - ELK's points per edge id, start and end included, in the top-down frame
+ */
+export function routeEdges(
+  nodes: PositionedNode[],
+  edges: LayoutEdge[],
+  elkRoutes: Map<string, LayoutPoint[]>,
+  options: LayoutOptions
+): Map<string, LayoutPoint[]> {
+  const nodesById = new Map(nodes.map(node => [node.id, node]));
+  const index = indexNodes(nodes);
+  const routes = new Map<string, LayoutPoint[]>();
+
+  edges.forEach(edge => {
+    const source = nodesById.get(edge.source);
+    const target = nodesById.get(edge.target);
+    if (!source || !target) return;
+    const from = { x: source.position.x + source.width / 2, y: source.position.y + source.height };
+    const to = { x: target.position.x + target.width / 2, y: target.position.y };
+
+    const elkRoute = elkRoutes.get(edge.id);
+    let bends = elkRoute && elkRoute.length > 2 ? syncElkRoute(elkRoute, from, to, options.edgeRouting) : [];
+    if (bends.length === 0 && options.edgeRouting === "ORTHOGONAL") {
+      bends = elbowRoute(from, to, options);
+    }
+    const endIds = [edge.source, edge.target];
+    if (findBlockingNodes([from, ...bends, to], index, endIds).length > 0) {
+      bends = detourRoute(from, to, index, endIds, options) ?? bends;
+    }
+    routes.set(edge.id, bends);
+  });
+
+  return routes;
+}
@@ -0,0 +1,187 @@
+import type {
+  LayoutOptions,
+  LayoutPasses,
+  LayoutStrategyId,
+  LayoutStrategySettings,
+} from "./types";
+
+/**
+ * Description of one strategy setting, enough for a settings panel to render a control for it.
+ * The kind follows the setting's type: numbers get a range and string unions a list of choices.
+ * Given a union of settings types, it describes the fields of all of them.
+ */
+export type LayoutSettingSchema<Settings> = Settings extends unknown ? {
+  [Key in keyof Settings & string]: Settings[Key] extends number
+    ? { key: Key; kind: "number"; label: string; min: number; max: number; step: number }
+    : { key: Key; kind: "choice"; label: string; choices: readonly Settings[Key][] };
+}[keyof Settings & string] : never;
+
+export interface LayoutStrategy<Id extends LayoutStrategyId = LayoutStrategyId> {
+  id: Id;
+  label: string;
+  description: string;
+  // ELK algorithm used for trees. Graphs with merge nodes always go through layered,
+  // since mrtree can only place trees.
+  algorithm: "mrtree" | "layered";
+  // Widen each node to the width of its subtree before ELK runs, so sibling subtrees
+  // get room of their own and parents can be centred over them afterwards
+  reserveSubtreeWidths: boolean;
+  // Post-processing passes this strategy runs after ELK
+  passes: LayoutPasses;
+  defaultSettings: LayoutStrategySettings[Id];
+  settingsSchema: LayoutSettingSchema<LayoutStrategySettings[Id]>[];
+  // ELK option block for one graph, built from the shared options and this strategy's settings
+  elkOptions(options: LayoutOptions): Record<string, string>;
+}
+
+function elkPadding({ padding }: LayoutOptions): string {
+  return `[top=${padding.top},left=${padding.left},bottom=${padding.bottom},right=${padding.right}]`;
+}
+
+const SEARCH_ORDERS = ["DFS", "BFS"] as const;
+const WEIGHTINGS = ["MODEL_ORDER", "DESCENDANTS", "FAN"] as const;
+
+const mrtree: LayoutStrategy<"mrtree"> = {
+  id: "mrtree",
+  label: "Tree",
+  description: "ELK's tree layout, with room reserved for every subtree and parents centred over their children.",
+  algorithm: "mrtree",
+  reserveSubtreeWidths: true,
+  passes: {
+    alignSiblings: true,
+    centerParents: true,
+    centerSkewedRoots: true,
+    constrainChildren: true,
+  },
+  defaultSettings: {
+    searchOrder: "DFS", // Depth-first search for better centering
+    weighting: "MODEL_ORDER", // Respect model order for positioning
+  },
+  settingsSchema: [
+    { key: "searchOrder", kind: "choice", label: "Search order", choices: SEARCH_ORDERS },
+    { key: "weighting", kind: "choice", label: "Child order", choices: WEIGHTINGS },
+  ],
+  elkOptions(options) {
+    const settings = options.strategySettings.mrtree;
+    return {
+      "elk.algorithm": "mrtree",
+      "elk.direction": options.direction,
+      "elk.spacing.nodeNode": options.nodeSpacing.toString(),
+      "elk.spacing.edgeNode": options.edgeNodeSpacing.toString(),
+      "elk.spacing.edgeEdge": options.edgeSpacing.toString(),
+      "elk.padding": elkPadding(options),
+      "elk.mrtree.compaction": "true",
+      // Edges are routed afresh after the passes, and ELK's overlap-avoiding routing
+      // takes about half its time on large trees
+      "elk.mrtree.edgeRoutingMode": "MIDDLE_TO_MIDDLE",
+      "elk.mrtree.searchOrder": settings.searchOrder,
+      "elk.mrtree.weighting": settings.weighting,
+      // FIX BEX-1852: Straight edge routing for clean, unkinking connections
+      "elk.edgeRouting": "STRAIGHT",
+    };
+  },
+};
+
+const layered: LayoutStrategy<"layered"> = {
+  id: "layered",
+  label: "Layered",
+  description: "ELK's layered layout: every node sits in a layer below all of its parents. Also used for graphs with merge nodes.",
+  algorithm: "layered",
+  reserveSubtreeWidths: false,
+  // Layers already align and space the nodes
+  passes: {
+    alignSiblings: false,
+    centerParents: false,
+    centerSkewedRoots: false,
+    constrainChildren: false,
+  },
+  defaultSettings: {
+    nodePlacement: "BRANDES_KOEPF",
+    layerSpacing: 50,
+  },
+  settingsSchema: [
+    {
+      key: "nodePlacement",
+      kind: "choice",
+      label: "Node placement",
+      choices: ["BRANDES_KOEPF", "NETWORK_SIMPLEX", "LINEAR_SEGMENTS"],
+    },
+    { key: "layerSpacing", kind: "number", label: "Layer spacing", min: 20, max: 300, step: 10 },
+  ],
+  elkOptions(options) {
+    const settings = options.strategySettings.layered;
+    return {
+      "elk.algorithm": "layered",
+      "elk.direction": options.direction,
+      "elk.spacing.nodeNode": options.nodeSpacing.toString(),
+      "elk.layered.spacing.nodeNodeBetweenLayers": settings.layerSpacing.toString(),
+      "elk.spacing.edgeNode": options.edgeNodeSpacing.toString(),
+      "elk.spacing.edgeEdge": options.edgeSpacing.toString(),
+      "elk.layered.spacing.edgeNodeBetweenLayers": options.layerEdgeSpacing.toString(),
+      "elk.layered.spacing.edgeEdgeBetweenLayers": options.edgeSpacing.toString(),
+      "elk.padding": elkPadding(options),
+      "elk.layered.nodePlacement.strategy": settings.nodePlacement,
+      // Balanced placement centres merge nodes between their parents
+      "elk.layered.nodePlacement.bk.fixedAlignment": "BALANCED",
+      "elk.layered.considerModelOrder.strategy": "NODES_AND_EDGES",
+      // Long edges get routed around the nodes of the layers they skip
+      "elk.edgeRouting": options.edgeRouting,
+    };
+  },
+};
+
+const compactTree: LayoutStrategy<"compact-tree"> = {
+  id: "compact-tree",
+  label: "Compact tree",
+  description: "ELK's tree layout packed as tightly as node sizes allow, without reserving room per subtree. Parents stay where ELK puts them.",
+  algorithm: "mrtree",
+  reserveSubtreeWidths: false,
+  // Centring and clamping children need the reserved subtree widths to stay clear of other nodes
+  passes: {
+    alignSiblings: true,
+    centerParents: false,
+    centerSkewedRoots: false,
+    constrainChildren: false,
+  },
+  defaultSettings: {
+    searchOrder: "DFS",
+    weighting: "MODEL_ORDER",
+  },
+  settingsSchema: [
+    { key: "searchOrder", kind: "choice", label: "Search order", choices: SEARCH_ORDERS },
+    { key: "weighting", kind: "choice", label: "Child order", choices: WEIGHTINGS },
+  ],
+  elkOptions(options) {
+    const settings = options.strategySettings["compact-tree"];
+    return {
+      "elk.algorithm": "mrtree",
+      "elk.direction": options.direction,
+      "elk.spacing.nodeNode": options.nodeSpacing.toString(),
+      "elk.spacing.edgeNode": options.edgeNodeSpacing.toString(),
+      "elk.spacing.edgeEdge": options.edgeSpacing.toString(),
+      "elk.padding": elkPadding(options),
+      // ELK's own compaction lets levels overlap when node heights differ
+      "elk.mrtree.compaction": "false",
+      "elk.mrtree.edgeRoutingMode": "MIDDLE_TO_MIDDLE", // See mrtree
+      "elk.mrtree.searchOrder": settings.searchOrder,
+      "elk.mrtree.weighting": settings.weighting,
+      "elk.edgeRouting": "STRAIGHT",
+    };
+  },
+};
+
+export const LAYOUT_STRATEGIES: { [Id in LayoutStrategyId]: LayoutStrategy<Id> } = {
+  mrtree,
+  layered,
+  "compact-tree": compactTree,
+};
+
+export const LAYOUT_STRATEGY_IDS = Object.keys(LAYOUT_STRATEGIES) as LayoutStrategyId[];
+
+export function getLayoutStrategy(id: LayoutStrategyId): LayoutStrategy {
+  return LAYOUT_STRATEGIES[id] as LayoutStrategy;
+}
+
+export function isLayoutStrategyId(value: unknown): value is LayoutStrategyId {
+  return LAYOUT_STRATEGY_IDS.includes(value as LayoutStrategyId);
+}
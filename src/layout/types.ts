@@ -0,0 +1,135 @@
+/**
+ * Plain data types used by the headless layout engine.
+ * Nothing in here depends on React or React Flow, so the engine can be
+ * driven from the app, from Node scripts or from tests.
+ */
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+// Any object with an id and (optionally) a size can be laid out.
+// React Flow nodes satisfy this shape as-is.
+export interface LayoutNode {
+  id: string;
+  width?: number | null;
+  height?: number | null;
+  // Top-left position the user pinned the node at; the rest of the layout moves out of its way
+  pinnedPosition?: LayoutPoint | null;
+}
+
+export interface LayoutEdge {
+  id: string;
+  source: string;
+  target: string;
+}
+
+// Node with resolved size and position, as passed between post-processing passes
+export interface PositionedNode {
+  id: string;
+  position: LayoutPoint;
+  width: number;
+  height: number;
+}
+
+// Direction the tree grows in, from the root towards the leaves
+export type LayoutDirection = "DOWN" | "RIGHT" | "UP" | "LEFT";
+
+export interface LayoutPadding {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+// Post-processing passes applied after ELK, in this order
+export interface LayoutPasses {
+  alignSiblings: boolean;
+  centerParents: boolean;
+  centerSkewedRoots: boolean;
+  constrainChildren: boolean;
+}
+
+// Settings of each layout strategy in the registry (see strategies.ts)
+export interface MrTreeSettings {
+  searchOrder: "DFS" | "BFS";
+  weighting: "MODEL_ORDER" | "DESCENDANTS" | "FAN";
+}
+
+export interface LayeredSettings {
+  nodePlacement: "BRANDES_KOEPF" | "NETWORK_SIMPLEX" | "LINEAR_SEGMENTS";
+  // Gap between consecutive layers
+  layerSpacing: number;
+}
+
+export interface CompactTreeSettings {
+  searchOrder: "DFS" | "BFS";
+  weighting: "MODEL_ORDER" | "DESCENDANTS" | "FAN";
+}
+
+export interface LayoutStrategySettings {
+  mrtree: MrTreeSettings;
+  layered: LayeredSettings;
+  "compact-tree": CompactTreeSettings;
+}
+
+export type LayoutStrategyId = keyof LayoutStrategySettings;
+
+// How edges are routed around nodes: straight segments between bend points, or
+// horizontal and vertical segments only
+export type LayoutEdgeRouting = "POLYLINE" | "ORTHOGONAL";
+
+export interface LayoutOptions {
+  direction: LayoutDirection;
+  strategy: LayoutStrategyId;
+  // Settings for every strategy, so switching back and forth keeps each one's tuning;
+  // only the active strategy's are read
+  strategySettings: LayoutStrategySettings;
+  edgeRouting: LayoutEdgeRouting;
+  // Size used for nodes that don't declare their own
+  defaultNodeWidth: number;
+  defaultNodeHeight: number;
+  // ELK spacing
+  nodeSpacing: number;
+  edgeSpacing: number;
+  edgeNodeSpacing: number;
+  layerEdgeSpacing: number;
+  padding: LayoutPadding;
+  // Gap reserved across the direction between sibling subtrees when sizing them for ELK
+  siblingSpacing: number;
+  // Gap along the direction between the end of the main tree and the sink node
+  sinkSpacing: number;
+  // Largest gap allowed along the direction between a parent and its child
+  maxVerticalGap: number;
+  // Node every main-tree leaf links to; its own subtree is laid out after the main tree.
+  // Set to null for graphs without a sink.
+  sinkNodeId: string | null;
+  // Passes to run; each strategy brings its own defaults
+  passes: LayoutPasses;
+}
+
+// Options as accepted from callers: every field may be omitted, including individual
+// passes and strategy settings
+export type LayoutOptionsInput = Partial<Omit<LayoutOptions, "padding" | "passes" | "strategySettings">> & {
+  padding?: Partial<LayoutPadding>;
+  passes?: Partial<LayoutPasses>;
+  strategySettings?: { [Id in LayoutStrategyId]?: Partial<LayoutStrategySettings[Id]> };
+};
+
+export interface LayoutBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutResult {
+  // Top-left position of every laid-out node, keyed by node id
+  positions: Record<string, LayoutPoint>;
+  // Box enclosing every laid-out node, without padding
+  bounds: LayoutBounds;
+  // Bend points of every edge, keyed by edge id, from the source's outgoing side to the
+  // target's incoming side (neither end included). Empty for a straight edge.
+  edgeRoutes: Record<string, LayoutPoint[]>;
+}
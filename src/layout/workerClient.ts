@@ -0,0 +1,84 @@
+import type { LayoutEdge, LayoutNode, LayoutOptionsInput, LayoutResult } from "./types";
+
+export interface LayoutWorkerRequest {
+  generation: number;
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  options?: LayoutOptionsInput;
+}
+
+export type LayoutWorkerResponse =
+  | { generation: number; result: LayoutResult }
+  | { generation: number; error: string };
+
+export interface LayoutWorkerClient {
+  /**
+   * Queue a layout on the worker.
+   * Resolves with null if a newer request is made before this one finishes.
+   */
+  layout(nodes: LayoutNode[], edges: LayoutEdge[], options?: LayoutOptionsInput): Promise<LayoutResult | null>;
+  // Stop the worker; outstanding requests resolve with null
+  dispose(): void;
+}
+
+interface PendingRequest {
+  resolve: (result: LayoutResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Run layouts in a Web Worker so ELK never blocks the UI.
+ * Every request carries a generation number and only the newest generation is ever
+ * delivered, so a slow layout can't overwrite the result of one requested after it.
+ */
+export function createLayoutWorkerClient(): LayoutWorkerClient {
+  const worker = new Worker(new URL("./layout.worker.ts", import.meta.url), { type: "module" });
+  const pending = new Map<number, PendingRequest>();
+  let generation = 0;
+
+  // Drop every request older than the given generation
+  const supersede = (latest: number) => {
+    pending.forEach((request, requestGeneration) => {
+      if (requestGeneration < latest) {
+        request.resolve(null);
+        pending.delete(requestGeneration);
+      }
+    });
+  };
+
+  worker.onmessage = (event: MessageEvent<LayoutWorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.generation);
+    if (!request) return; // Already superseded
+    pending.delete(response.generation);
+    if ("error" in response) {
+      request.reject(new Error(response.error));
+    } else {
+      request.resolve(response.result);
+    }
+  };
+
+  return {
+    layout(nodes, edges, options) {
+      generation += 1;
+      const requestGeneration = generation;
+      supersede(requestGeneration);
+
+      return new Promise((resolve, reject) => {
+        pending.set(requestGeneration, { resolve, reject });
+        const request: LayoutWorkerRequest = {
+          generation: requestGeneration,
+          // Only send what the engine reads, so the message stays small and cloneable
+          nodes: nodes.map(({ id, width, height, pinnedPosition }) => ({ id, width, height, pinnedPosition })),
+          edges: edges.map(({ id, source, target }) => ({ id, source, target })),
+          options,
+        };
+        worker.postMessage(request);
+      });
+    },
+    dispose() {
+      worker.terminate();
+      supersede(Infinity);
+    },
+  };
+}
@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useMemo, useRef, type Dispatch, type SetStateAction } from "react";
+import type { Node, XYPosition } from "reactflow";
+
+// How long nodes take to glide from one layout to the next
+const LAYOUT_ANIMATION_DURATION = 300;
+
+function easeInOutCubic(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+function prefersReducedMotion(): boolean {
+  return typeof window !== 'undefined' && Boolean(window.matchMedia?.('(prefers-reduced-motion: reduce)').matches);
+}
+
+// Node with the given opacity, or with its opacity cleared again when undefined
+function withOpacity(node: Node, opacity: number | undefined): Node {
+  const style = { ...node.style, opacity };
+  if (opacity === undefined) delete style.opacity;
+  return { ...node, style };
+}
+
+export interface LayoutAnimation {
+  /**
+   * Move nodes to their new layout positions.
+   * Nodes that have been laid out before glide from wherever they are on screen, so a layout
+   * landing mid-animation takes over smoothly; nodes seen for the first time grow in from their
+   * parent. With reduced motion preferred, or on the very first layout, nodes jump straight there.
+   * @param targets - New position per node id; nodes not listed stay where they are
+   * @param getParentId - Parent a new node grows in from
+   * @param onDone - Called once the nodes have arrived
+   */
+  animateTo(targets: Map<string, XYPosition>, getParentId: (nodeId: string) => string | undefined, onDone: () => void): void;
+  // Stop a running animation where it is, e.g. when the user grabs a node
+  cancel(): void;
+}
+
+// Interpolates node positions between successive layouts
+export function useLayoutAnimation(nodes: Node[], setNodes: Dispatch<SetStateAction<Node[]>>): LayoutAnimation {
+  const nodesRef = useRef(nodes);
+  useEffect(() => {
+    nodesRef.current = nodes;
+  }, [nodes]);
+  const frameRef = useRef<number | null>(null);
+  // Nodes that have been laid out at least once
+  const laidOutIdsRef = useRef(new Set<string>());
+
+  const cancel = useCallback(() => {
+    if (frameRef.current === null) return;
+    cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    // Anything still fading in is shown in full
+    setNodes(current => current.map(node => node.style?.opacity === undefined ? node : withOpacity(node, undefined)));
+  }, [setNodes]);
+
+  // Cancel on unmount so no frame runs against a stale flow
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  const animateTo = useCallback<LayoutAnimation['animateTo']>((targets, getParentId, onDone) => {
+    if (frameRef.current !== null) {
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = null;
+    }
+    const laidOutIds = laidOutIdsRef.current;
+    const firstLayout = laidOutIds.size === 0;
+    const newIds = new Set([...targets.keys()].filter(nodeId => !laidOutIds.has(nodeId)));
+    newIds.forEach(nodeId => laidOutIds.add(nodeId));
+
+    if (firstLayout || prefersReducedMotion()) {
+      setNodes(current => current.map(node => {
+        const position = targets.get(node.id);
+        return position ? withOpacity({ ...node, position }, undefined) : node;
+      }));
+      onDone();
+      return;
+    }
+
+    // Where each node starts from: its current position, or its parent's for a new node.
+    // New nodes fade in from nothing, and nodes interrupted mid-fade carry on from where they were.
+    const currentById = new Map(nodesRef.current.map(node => [node.id, node]));
+    const starts = new Map<string, XYPosition>();
+    const fadeStarts = new Map<string, number>();
+    targets.forEach((_position, nodeId) => {
+      const node = currentById.get(nodeId);
+      if (!node) return;
+      const parent = newIds.has(nodeId) ? currentById.get(getParentId(nodeId) ?? '') : undefined;
+      starts.set(nodeId, parent ? parent.position : node.position);
+      if (parent) {
+        fadeStarts.set(nodeId, 0);
+      } else if (typeof node.style?.opacity === 'number') {
+        fadeStarts.set(nodeId, node.style.opacity);
+      }
+    });
+
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const progress = Math.min(1, (now - startTime) / LAYOUT_ANIMATION_DURATION);
+      const eased = easeInOutCubic(progress);
+      setNodes(current => current.map(node => {
+        const target = targets.get(node.id);
+        const start = starts.get(node.id);
+        if (!target || !start) return node;
+        const moved = {
+          ...node,
+          position: {
+            x: start.x + (target.x - start.x) * eased,
+            y: start.y + (target.y - start.y) * eased,
+          },
+        };
+        const fadeStart = fadeStarts.get(node.id);
+        return withOpacity(moved, fadeStart === undefined || progress === 1 ? undefined : fadeStart + (1 - fadeStart) * eased);
+      }));
+      if (progress < 1) {
+        frameRef.current = requestAnimationFrame(step);
+      } else {
+        frameRef.current = null;
+        onDone();
+      }
+    };
+    frameRef.current = requestAnimationFrame(step);
+  }, [setNodes]);
+
+  return useMemo(() => ({ animateTo, cancel }), [animateTo, cancel]);
+}
@@ -0,0 +1,9 @@
+import { createContext, useContext } from "react";
+import type { LayoutDirection } from "./layout/types";
+
+// Direction the canvas is laid out in; nodes read it to put their handles on the right sides
+export const LayoutDirectionContext = createContext<LayoutDirection>("DOWN");
+
+export function useLayoutDirection(): LayoutDirection {
+  return useContext(LayoutDirectionContext);
+}
@@ -0,0 +1,142 @@
+import { EDGE_STYLES, type EdgeStyle } from "./edgePaths";
+import { DEFAULT_LAYOUT_OPTIONS } from "./layout/options";
+import { LAYOUT_DIRECTIONS } from "./layout/direction";
+import { isLayoutStrategyId, LAYOUT_STRATEGIES } from "./layout/strategies";
+import type { LayoutDirection, LayoutOptionsInput, LayoutStrategyId, LayoutStrategySettings } from "./layout/types";
+
+const LAYOUT_SETTINGS_KEY = "elk-flow:layout-settings";
+
+// Spacing the settings panel lets users tune; the rest stays at the engine defaults
+export interface LayoutSpacing {
+  nodeSpacing: number;
+  siblingSpacing: number;
+  maxVerticalGap: number;
+  sinkSpacing: number;
+}
+
+// Layout choices made in the settings panel, remembered between sessions
+export interface LayoutSettings {
+  direction: LayoutDirection;
+  strategy: LayoutStrategyId;
+  strategySettings: LayoutStrategySettings;
+  spacing: LayoutSpacing;
+  edgeStyle: EdgeStyle;
+}
+
+export const SPACING_LIMITS: Record<keyof LayoutSpacing, { label: string; min: number; max: number; step: number }> = {
+  nodeSpacing: { label: "Node spacing", min: 10, max: 200, step: 10 },
+  siblingSpacing: { label: "Sibling spacing", min: 0, max: 300, step: 10 },
+  maxVerticalGap: { label: "Max parent gap", min: 10, max: 300, step: 10 },
+  sinkSpacing: { label: "End node spacing", min: 20, max: 300, step: 10 },
+};
+
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+  direction: DEFAULT_LAYOUT_OPTIONS.direction,
+  strategy: DEFAULT_LAYOUT_OPTIONS.strategy,
+  strategySettings: DEFAULT_LAYOUT_OPTIONS.strategySettings,
+  spacing: {
+    nodeSpacing: DEFAULT_LAYOUT_OPTIONS.nodeSpacing,
+    siblingSpacing: DEFAULT_LAYOUT_OPTIONS.siblingSpacing,
+    maxVerticalGap: DEFAULT_LAYOUT_OPTIONS.maxVerticalGap,
+    sinkSpacing: DEFAULT_LAYOUT_OPTIONS.sinkSpacing,
+  },
+  edgeStyle: "straight",
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isInRange(value: unknown, { min, max }: { min: number; max: number }): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+// What reading stored settings needs to know about a field of a strategy's settings schema
+type SettingField<Settings> = { key: keyof Settings & string } & (
+  | { kind: "number"; min: number; max: number }
+  | { kind: "choice"; choices: readonly unknown[] }
+);
+
+// Can the stored value go in the field: a number in its range, or one of its choices?
+function fitsSetting<Settings>(field: SettingField<Settings>, value: unknown): value is Settings[keyof Settings & string] {
+  return field.kind === "number" ? isInRange(value, field) : field.choices.includes(value);
+}
+
+// Keep the stored values that still fit the strategy's schema; the rest fall back to its defaults
+function readStrategySettings<Settings>(
+  strategy: { defaultSettings: Settings; settingsSchema: readonly SettingField<Settings>[] },
+  stored: unknown
+): Settings {
+  const settings = { ...strategy.defaultSettings };
+  if (!isRecord(stored)) return settings;
+
+  strategy.settingsSchema.forEach((field) => {
+    const value = stored[field.key];
+    if (fitsSetting(field, value)) settings[field.key] = value;
+  });
+  return settings;
+}
+
+function readSpacing(stored: unknown): LayoutSpacing {
+  const spacing = { ...DEFAULT_LAYOUT_SETTINGS.spacing };
+  if (!isRecord(stored)) return spacing;
+  (Object.keys(SPACING_LIMITS) as (keyof LayoutSpacing)[]).forEach((key) => {
+    const value = stored[key];
+    if (isInRange(value, SPACING_LIMITS[key])) spacing[key] = value;
+  });
+  return spacing;
+}
+
+// The saved layout settings, with anything missing or no longer valid replaced by the defaults
+export function loadLayoutSettings(): LayoutSettings {
+  let stored: unknown;
+  try {
+    const text = localStorage.getItem(LAYOUT_SETTINGS_KEY);
+    if (!text) return DEFAULT_LAYOUT_SETTINGS;
+    stored = JSON.parse(text);
+  } catch (error) {
+    console.warn('Ignoring saved layout settings:', error);
+    return DEFAULT_LAYOUT_SETTINGS;
+  }
+  if (!isRecord(stored)) return DEFAULT_LAYOUT_SETTINGS;
+
+  const storedStrategySettings = isRecord(stored.strategySettings) ? stored.strategySettings : {};
+  const strategySettings: LayoutStrategySettings = {
+    mrtree: readStrategySettings(LAYOUT_STRATEGIES.mrtree, storedStrategySettings.mrtree),
+    layered: readStrategySettings(LAYOUT_STRATEGIES.layered, storedStrategySettings.layered),
+    "compact-tree": readStrategySettings(LAYOUT_STRATEGIES["compact-tree"], storedStrategySettings["compact-tree"]),
+  };
+
+  return {
+    direction: LAYOUT_DIRECTIONS.includes(stored.direction as LayoutDirection)
+      ? stored.direction as LayoutDirection
+      : DEFAULT_LAYOUT_SETTINGS.direction,
+    strategy: isLayoutStrategyId(stored.strategy) ? stored.strategy : DEFAULT_LAYOUT_SETTINGS.strategy,
+    strategySettings,
+    spacing: readSpacing(stored.spacing),
+    edgeStyle: EDGE_STYLES.includes(stored.edgeStyle as EdgeStyle)
+      ? stored.edgeStyle as EdgeStyle
+      : DEFAULT_LAYOUT_SETTINGS.edgeStyle,
+  };
+}
+
+export function saveLayoutSettings(settings: LayoutSettings): void {
+  try {
+    localStorage.setItem(LAYOUT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (error) {
+    // Storage can be full or disabled; the settings still apply for this session
+    console.warn('Saving layout settings failed:', error);
+  }
+}
+
+// Layout engine options for the chosen settings
+export function toLayoutOptions(settings: LayoutSettings): LayoutOptionsInput {
+  return {
+    direction: settings.direction,
+    strategy: settings.strategy,
+    strategySettings: settings.strategySettings,
+    ...settings.spacing,
+    // Straight and spline edges pass through polyline bend points
+    edgeRouting: settings.edgeStyle === "orthogonal" ? "ORTHOGONAL" : "POLYLINE",
+  };
+}
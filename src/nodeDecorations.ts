@@ -0,0 +1,37 @@
+import { createContext, useContext } from "react";
+
+// Short message shown on a node, e.g. why a connection to it was rejected
+export interface NodeNotice {
+  kind: "error" | "warning" | "info";
+  message: string;
+}
+
+// Small marker in the node's header, e.g. for integrity problems or hidden descendants;
+// details go in the tooltip
+export interface NodeBadge {
+  kind: "error" | "warning" | "info";
+  label: string;
+  title: string;
+}
+
+// Outline drawn around the whole node, e.g. on the node another node is being dragged onto,
+// or on the node a run is at
+export type NodeHighlight = "drop-target" | "invalid-drop-target" | "run-active";
+
+// Transient, per-node UI state that isn't part of the graph itself (and so never
+// reaches undo history or saved documents), keyed by node id
+export interface NodeDecoration {
+  notices: NodeNotice[];
+  badges: NodeBadge[];
+  highlight: NodeHighlight | null;
+}
+
+export function emptyDecoration(): NodeDecoration {
+  return { notices: [], badges: [], highlight: null };
+}
+
+export const NodeDecorationsContext = createContext<ReadonlyMap<string, NodeDecoration>>(new Map());
+
+export function useNodeDecoration(nodeId: string): NodeDecoration | undefined {
+  return useContext(NodeDecorationsContext).get(nodeId);
+}
@@ -0,0 +1,73 @@
+import type { Node } from "reactflow";
+import type { FlowNodeData } from "../graph";
+
+// A child the executor can hand the run on to
+export interface ExecutionBranch {
+  nodeId: string;
+  label: string;
+}
+
+export interface ExecutionContext {
+  // What the previous node produced; null for the root
+  input: unknown;
+  // Children of the node, in edge order; the executor picks which one the run follows
+  branches: ExecutionBranch[];
+  // 1 for the root, counting up by one per executed node
+  step: number;
+}
+
+export interface ExecutionResult {
+  // Handed to the next node as its input
+  output: unknown;
+  // Child the run follows; may be left out when the node has at most one child
+  next?: string;
+  // One line for the execution log
+  message?: string;
+}
+
+/**
+ * Runs one node of a flow. Executors may be async, e.g. to call a service;
+ * throwing fails the run at that node.
+ */
+export type NodeExecutor = (
+  node: Node<FlowNodeData>,
+  context: ExecutionContext
+) => ExecutionResult | Promise<ExecutionResult>;
+
+// How long the mock pretends to work, so stepping through a run reads like a real one
+const MOCK_EXECUTION_DELAY = 250;
+
+// Small string hash, so the mock's branch choices are the same on every run
+function hashString(text: string): number {
+  let hash = 0;
+  for (let index = 0; index < text.length; index++) {
+    hash = (Math.imul(hash, 31) + text.charCodeAt(index)) | 0;
+  }
+  return Math.abs(hash);
+}
+
+/**
+ * Stand-in executor that works offline: it waits briefly, passes on a record of
+ * the nodes run so far, and picks a branch by hashing the node id.
+ */
+export const mockExecutor: NodeExecutor = async (node, { input, branches }) => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_EXECUTION_DELAY));
+  const path = Array.isArray(input) ? input : [];
+  const branch = branches.length > 0 ? branches[hashString(node.id) % branches.length] : undefined;
+  return {
+    output: [...path, node.data.label],
+    next: branch?.nodeId,
+    message: branches.length > 1 ? `Chose "${branch!.label}" of ${branches.length} branches` : 'Done',
+  };
+};
+
+// Executors by node type; node types without one of their own run the mock
+const executors = new Map<string, NodeExecutor>();
+
+export function registerExecutor(nodeType: string, executor: NodeExecutor): void {
+  executors.set(nodeType, executor);
+}
+
+export function getExecutor(nodeType: string | undefined): NodeExecutor {
+  return (nodeType && executors.get(nodeType)) || mockExecutor;
+}
@@ -0,0 +1,4 @@
+export { getExecutor, mockExecutor, registerExecutor } from "./executors";
+export type { ExecutionBranch, ExecutionContext, ExecutionResult, NodeExecutor } from "./executors";
+export { IDLE_RUN, executeRunStep, isRunOver } from "./runner";
+export type { RunLogEntry, RunState, RunStatus } from "./runner";
@@ -0,0 +1,98 @@
+import { ROOT_NODE_ID, getChildIds, type FlowGraph } from "../graph";
+import { getExecutor, type ExecutionResult, type NodeExecutor } from "./executors";
+
+export type RunStatus = "idle" | "running" | "paused" | "finished" | "failed";
+
+// One executed node
+export interface RunLogEntry {
+  step: number;
+  nodeId: string;
+  label: string;
+  outcome: "done" | "failed";
+  message: string;
+  // How long the executor took, in milliseconds
+  duration: number;
+}
+
+export interface RunState {
+  status: RunStatus;
+  // Node that runs next; null before the run starts and once it is over
+  activeNodeId: string | null;
+  // Output of the last executed node, handed to the active one
+  input: unknown;
+  log: RunLogEntry[];
+}
+
+export const IDLE_RUN: RunState = { status: "idle", activeNodeId: null, input: null, log: [] };
+
+export function isRunOver(state: RunState): boolean {
+  return state.status === "finished" || state.status === "failed";
+}
+
+// The child the run moves on to, or an error message if the executor's choice can't be followed
+function pickNext(result: ExecutionResult, childIds: string[]): string | null | { error: string } {
+  if (result.next !== undefined) {
+    return childIds.includes(result.next)
+      ? result.next
+      : { error: `Picked "${result.next}", which is not one of its children` };
+  }
+  if (childIds.length > 1) return { error: `Has ${childIds.length} branches but picked none` };
+  return childIds[0] ?? null;
+}
+
+/**
+ * Execute the active node and move the run on to the child it picked.
+ * A run starts at the root and, since every main-tree leaf links to the end node, reaches the
+ * end node and carries on into the output tree; it finishes at the first node without children.
+ * @param graph - The graph to run, without the edges that close cycles
+ * @param getNodeExecutor - Executor for a node type; the registered executors by default
+ * @returns The state after the step; the status only changes when the run starts or ends
+ */
+export async function executeRunStep(
+  graph: FlowGraph,
+  state: RunState,
+  getNodeExecutor: (nodeType: string | undefined) => NodeExecutor = getExecutor
+): Promise<RunState> {
+  if (isRunOver(state)) return state;
+  const nodeId = state.activeNodeId ?? ROOT_NODE_ID;
+  const step = state.log.length + 1;
+  const node = graph.nodes.find(n => n.id === nodeId);
+  const fail = (label: string, message: string, duration = 0): RunState => ({
+    status: "failed",
+    activeNodeId: null,
+    input: state.input,
+    log: [...state.log, { step, nodeId, label, outcome: "failed", message, duration }],
+  });
+  if (!node) return fail(nodeId, "Node no longer exists");
+
+  const childIds = getChildIds(nodeId, graph.edges);
+  const branches = childIds.map(childId => ({
+    nodeId: childId,
+    label: graph.nodes.find(n => n.id === childId)?.data.label ?? childId,
+  }));
+  const start = performance.now();
+  let result: ExecutionResult;
+  try {
+    result = await getNodeExecutor(node.type)(node, { input: state.input, branches, step });
+  } catch (error) {
+    return fail(node.data.label, error instanceof Error ? error.message : String(error), performance.now() - start);
+  }
+  const duration = performance.now() - start;
+
+  const next = pickNext(result, childIds);
+  if (next !== null && typeof next === "object") return fail(node.data.label, next.error, duration);
+  const entry: RunLogEntry = {
+    step,
+    nodeId,
+    label: node.data.label,
+    outcome: "done",
+    message: result.message ?? "Done",
+    duration,
+  };
+  return {
+    status: next === null ? "finished" : state.status === "idle" ? "paused" : state.status,
+    activeNodeId: next,
+    input: result.output,
+    log: [...state.log, entry],
+  };
+}
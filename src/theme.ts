@@ -0,0 +1,18 @@
+// Colours shared by the canvas and the SVG/PNG export so both look the same
+
+// Constants for consistent edge styling
+export const EDGE_THICKNESS = 2;
+export const EDGE_COLOR = '#999';
+export const EDGE_ARROW_SIZE = 20;
+// Summarised edges stand in for a collapsed subtree
+export const SUMMARY_EDGE_DASH = '10 6';
+
+export const NODE_BORDER_RADIUS = 5;
+export const NODE_FONT_SIZE = 16;
+
+// Each node type has its own; see the node type registry
+export interface NodeColors {
+  background: string;
+  border: string;
+  borderWidth: number;
+}